@@ -2,25 +2,112 @@
 
 import type React from "react"
 import { useState, useCallback, memo } from "react"
-import { useLookup } from "@/contexts/lookup-context"
+import { useLookup, type ImportPreview as ImportPreviewData } from "@/contexts/lookup-context"
+import { useSite } from "@/contexts/site-context"
+import { useImportProfiles } from "@/hooks/use-import-profiles"
+import type { HtmlImportProfile } from "@/utils/import-profiles"
+import { IMPORT_FILE_ACCEPT, detectImportFileType, type ImportOptions } from "@/utils/import-file"
+import { exportLookupCsv, exportLookupJson, isLookupExportFile } from "@/utils/lookup-export"
+import { previewSpreadsheet, type SpreadsheetImportOptions, type SpreadsheetSheetPreview } from "@/utils/excel-parser"
 import ManualEntry from "./manual-entry"
+import ImportProfileEditor from "./import-profile-editor"
+import ImportPreview from "./import-preview"
+import SpreadsheetColumnPicker from "./spreadsheet-column-picker"
+import LookupHistoryPanel from "./lookup-history-panel"
+import LookupAuditPanel from "./lookup-audit-panel"
 
 function HtmlUploader() {
-  const { uploadHtml, clearData, isLoading, error, lastUpdated, dataCount, forceRefresh } = useLookup()
+  const { lookupData, previewImport, applyImport, clearData, isLoading, error, lastUpdated, dataCount, forceRefresh } =
+    useLookup()
+  const { activeSite } = useSite()
   const [isDragging, setIsDragging] = useState(false)
   const [mergeMode, setMergeMode] = useState(true) // Default to merge mode
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const { profiles, selectedProfile, selectProfile, saveProfile, copyProfile, deleteProfile } = useImportProfiles()
+  const [editingProfile, setEditingProfile] = useState<HtmlImportProfile | null>(null)
+  const [preview, setPreview] = useState<ImportPreviewData | null>(null)
+  // Bumped for every new preview so accept/reject choices start fresh
+  const [previewCount, setPreviewCount] = useState(0)
+
+  // Spreadsheet waiting for the user to pick the sheet and columns
+  const [pendingSpreadsheet, setPendingSpreadsheet] = useState<{
+    file: File
+    sheets: SpreadsheetSheetPreview[]
+  } | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showAudit, setShowAudit] = useState(false)
+
+  const showPreview = useCallback(
+    async (file: File, options: ImportOptions) => {
+      setPreview(await previewImport(file, mergeMode, options))
+      setPreviewCount((prev) => prev + 1)
+    },
+    [previewImport, mergeMode],
+  )
+
+  // HTML goes straight to the preview with the selected profile; spreadsheets ask for the sheet and columns first
+  const handleFile = useCallback(
+    async (file: File) => {
+      setFileError(null)
+      setPreview(null)
+      setPendingSpreadsheet(null)
+
+      const fileType = detectImportFileType(file.name)
+      if (await isLookupExportFile(file)) {
+        await showPreview(file, { lookupExport: true })
+      } else if (fileType === "html") {
+        await showPreview(file, { profile: selectedProfile })
+      } else if (fileType === "spreadsheet") {
+        try {
+          setPendingSpreadsheet({ file, sheets: await previewSpreadsheet(file) })
+        } catch (e) {
+          setFileError(e instanceof Error ? e.message : `Could not read ${file.name}`)
+        }
+      } else {
+        setFileError(`Unsupported file type: ${file.name}. Use ${IMPORT_FILE_ACCEPT}`)
+      }
+    },
+    [showPreview, selectedProfile],
+  )
+
+  // Download the lookup database as a backup or to move it to another device
+  const handleExport = useCallback(
+    (format: "csv" | "json") => {
+      const metadata = { siteId: activeSite.id, lastUpdated }
+      const content = format === "csv" ? exportLookupCsv(lookupData, metadata) : exportLookupJson(lookupData, metadata)
+      const blob = new Blob([content], { type: format === "csv" ? "text/csv" : "application/json" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `truck-trailer-lookup-${activeSite.id}-${new Date().toISOString().slice(0, 10)}.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+      console.log(`💾 Exported ${lookupData.length} lookup entries as ${format.toUpperCase()}`)
+    },
+    [lookupData, lastUpdated, activeSite.id],
+  )
+
+  const handleSpreadsheetConfirm = useCallback(
+    async (spreadsheet: SpreadsheetImportOptions) => {
+      if (!pendingSpreadsheet) return
+      const { file } = pendingSpreadsheet
+      setPendingSpreadsheet(null)
+      await showPreview(file, { spreadsheet })
+    },
+    [pendingSpreadsheet, showPreview],
+  )
 
   const handleFileChange = useCallback(
     async (e: React.ChangeEvent<HTMLInputElement>) => {
       const files = e.target.files
       if (files && files.length > 0) {
-        await uploadHtml(files[0], mergeMode)
+        await handleFile(files[0])
         // Clear the input value so the same file can be uploaded again if needed
         e.target.value = ""
       }
     },
-    [uploadHtml, mergeMode],
+    [handleFile],
   )
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -39,16 +126,40 @@ function HtmlUploader() {
 
       const files = e.dataTransfer.files
       if (files && files.length > 0) {
-        await uploadHtml(files[0], mergeMode)
+        await handleFile(files[0])
       }
     },
-    [uploadHtml, mergeMode],
+    [handleFile],
   )
 
   const handleMergeModeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setMergeMode(e.target.checked)
   }, [])
 
+  const handleApplyImport = useCallback(
+    async (rejectedTrucks: Set<string>) => {
+      if (!preview) return
+      await applyImport(preview, rejectedTrucks)
+      setPreview(null)
+    },
+    [applyImport, preview],
+  )
+
+  const handleSaveProfile = useCallback(
+    (profile: HtmlImportProfile) => {
+      const saved = saveProfile(profile)
+      selectProfile(saved.id)
+      setEditingProfile(null)
+    },
+    [saveProfile, selectProfile],
+  )
+
+  const handleDeleteProfile = useCallback(() => {
+    if (window.confirm(`Delete the import profile "${selectedProfile.name}"?`)) {
+      deleteProfile(selectedProfile.id)
+    }
+  }, [deleteProfile, selectedProfile])
+
   const handleForceRefresh = useCallback(async () => {
     setIsRefreshing(true)
     try {
@@ -99,6 +210,55 @@ function HtmlUploader() {
         </label>
       </div>
 
+      {/* Import profile: how the HTML export is read */}
+      <div className="mb-3 p-2 bg-gray-50 border border-gray-200 rounded">
+        <div className="flex items-center space-x-2 text-sm">
+          <span>HTML import profile:</span>
+          <select
+            value={selectedProfile.id}
+            onChange={(e) => selectProfile(e.target.value)}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          {!selectedProfile.builtIn && (
+            <button
+              onClick={() => setEditingProfile(selectedProfile)}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded text-xs"
+            >
+              Edit
+            </button>
+          )}
+          <button
+            onClick={() => setEditingProfile(copyProfile(selectedProfile))}
+            className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs"
+          >
+            Copy
+          </button>
+          {!selectedProfile.builtIn && (
+            <button
+              onClick={handleDeleteProfile}
+              className="bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded text-xs"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      {editingProfile && (
+        <ImportProfileEditor
+          key={editingProfile.id}
+          profile={editingProfile}
+          onSave={handleSaveProfile}
+          onCancel={() => setEditingProfile(null)}
+        />
+      )}
+
       <div
         className={`border-2 border-dashed p-4 rounded-lg text-center cursor-pointer ${
           isDragging ? "border-blue-500 bg-blue-50" : "border-gray-300"
@@ -108,12 +268,12 @@ function HtmlUploader() {
         onDrop={handleDrop}
         onClick={() => document.getElementById("file-upload")?.click()}
       >
-        <input id="file-upload" type="file" accept=".html,.htm" onChange={handleFileChange} className="hidden" />
-        <p className="text-sm">{isLoading ? "Processing..." : "Drop HTML file here or click to upload"}</p>
+        <input id="file-upload" type="file" accept={IMPORT_FILE_ACCEPT} onChange={handleFileChange} className="hidden" />
+        <p className="text-sm">{isLoading ? "Processing..." : "Drop an HTML, Excel or CSV file here or click to upload"}</p>
         <p className="text-xs mt-1">
           {mergeMode
-            ? "Smart merge: Updates only trucks from new HTML, preserves other existing pairs"
-            : "Full replace: Replaces ALL existing data with new HTML"}
+            ? "Smart merge: Updates only trucks from the new file, preserves other existing pairs"
+            : "Full replace: Replaces ALL existing data with the new file"}
         </p>
         {lastUpdated && <p className="text-xs text-gray-500 mt-1">Last updated: {lastUpdated.toLocaleString()}</p>}
         {dataCount > 0 && (
@@ -121,6 +281,47 @@ function HtmlUploader() {
         )}
       </div>
 
+      {fileError && (
+        <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded">
+          <p className="text-red-600 text-sm">{fileError}</p>
+        </div>
+      )}
+
+      {pendingSpreadsheet && (
+        <div className="mt-2">
+          <SpreadsheetColumnPicker
+            fileName={pendingSpreadsheet.file.name}
+            sheets={pendingSpreadsheet.sheets}
+            onConfirm={handleSpreadsheetConfirm}
+            onCancel={() => setPendingSpreadsheet(null)}
+          />
+        </div>
+      )}
+
+      {preview && (
+        <div className="mt-2">
+          <ImportPreview
+            key={previewCount}
+            preview={preview}
+            isLoading={isLoading}
+            onApply={handleApplyImport}
+            onCancel={() => setPreview(null)}
+          />
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="mt-2">
+          <LookupHistoryPanel onClose={() => setShowHistory(false)} />
+        </div>
+      )}
+
+      {showAudit && (
+        <div className="mt-2">
+          <LookupAuditPanel onClose={() => setShowAudit(false)} />
+        </div>
+      )}
+
       {/* Action buttons */}
       <div className="mt-2 flex justify-center space-x-2">
         <button
@@ -130,6 +331,46 @@ function HtmlUploader() {
         >
           Clear All Data
         </button>
+        <button
+          onClick={() => handleExport("csv")}
+          disabled={dataCount === 0}
+          className="bg-gray-500 hover:bg-gray-600 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm disabled:cursor-not-allowed transition-colors"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={() => handleExport("json")}
+          disabled={dataCount === 0}
+          className="bg-gray-500 hover:bg-gray-600 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm disabled:cursor-not-allowed transition-colors"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => document.getElementById("lookup-backup-upload")?.click()}
+          disabled={isLoading}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm disabled:cursor-not-allowed transition-colors"
+        >
+          Import CSV/JSON
+        </button>
+        <button
+          onClick={() => setShowHistory((prev) => !prev)}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm transition-colors"
+        >
+          {showHistory ? "Hide Version History" : "Version History"}
+        </button>
+        <button
+          onClick={() => setShowAudit((prev) => !prev)}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm transition-colors"
+        >
+          {showAudit ? "Hide Audit Trail" : "Audit Trail"}
+        </button>
+        <input
+          id="lookup-backup-upload"
+          type="file"
+          accept=".csv,.json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
       </div>
 
       {error && (
@@ -0,0 +1,168 @@
+"use client"
+
+import type React from "react"
+import { useState, useCallback, memo } from "react"
+import type { ImportPreview as ImportPreviewData } from "@/contexts/lookup-context"
+import ImportReport from "./import-report"
+
+interface ImportPreviewProps {
+  preview: ImportPreviewData
+  isLoading: boolean
+  onApply: (rejectedTrucks: Set<string>) => void
+  onCancel: () => void
+}
+
+// One section of changes with a checkbox per truck
+const ChangeSection = memo(
+  ({
+    title,
+    color,
+    trucks,
+    rejected,
+    onToggle,
+    onToggleAll,
+    renderChange,
+  }: {
+    title: string
+    color: string
+    trucks: string[]
+    rejected: Set<string>
+    onToggle: (truck: string) => void
+    onToggleAll: (trucks: string[], accept: boolean) => void
+    renderChange: (truck: string) => React.ReactNode
+  }) => {
+    if (trucks.length === 0) return null
+    const acceptedCount = trucks.filter((truck) => !rejected.has(truck)).length
+
+    return (
+      <div className="mb-2">
+        <div className="flex items-center space-x-2 mb-1">
+          <span className={`font-semibold ${color}`}>
+            {title} ({acceptedCount}/{trucks.length})
+          </span>
+          <button onClick={() => onToggleAll(trucks, true)} className="text-blue-600 underline">
+            all
+          </button>
+          <button onClick={() => onToggleAll(trucks, false)} className="text-blue-600 underline">
+            none
+          </button>
+        </div>
+        <div className="max-h-40 overflow-y-auto border border-gray-200 rounded">
+          {trucks.map((truck) => (
+            <label key={truck} className="flex items-center space-x-2 px-1 hover:bg-gray-50 cursor-pointer">
+              <input type="checkbox" checked={!rejected.has(truck)} onChange={() => onToggle(truck)} />
+              <span className="font-mono">{renderChange(truck)}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    )
+  },
+)
+
+ChangeSection.displayName = "ChangeSection"
+
+function ImportPreview({ preview, isLoading, onApply, onCancel }: ImportPreviewProps) {
+  const { diff } = preview
+  const [rejected, setRejected] = useState<Set<string>>(() => new Set())
+
+  const addedByTruck = new Map(diff.added.map((item) => [item.truck, item]))
+  const changedByTruck = new Map(diff.changed.map((change) => [change.truck, change]))
+  const removedByTruck = new Map(diff.removed.map((item) => [item.truck, item]))
+  const changeCount = diff.added.length + diff.changed.length + diff.removed.length
+
+  const handleToggle = useCallback((truck: string) => {
+    setRejected((prev) => {
+      const next = new Set(prev)
+      if (next.has(truck)) {
+        next.delete(truck)
+      } else {
+        next.add(truck)
+      }
+      return next
+    })
+  }, [])
+
+  const handleToggleAll = useCallback((trucks: string[], accept: boolean) => {
+    setRejected((prev) => {
+      const next = new Set(prev)
+      for (const truck of trucks) {
+        if (accept) {
+          next.delete(truck)
+        } else {
+          next.add(truck)
+        }
+      }
+      return next
+    })
+  }, [])
+
+  return (
+    <div className="mb-3 p-2 bg-white border border-gray-300 rounded shadow-sm text-xs">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-semibold text-sm">
+          Import preview: {preview.fileName}{" "}
+          <span className="font-normal text-gray-500">
+            ({preview.mergeMode ? "smart merge" : "full replace"}, {preview.sourceLabel})
+          </span>
+        </h4>
+      </div>
+
+      {preview.imported.length === 0 ? (
+        <p className="text-red-600 mb-2">Nothing to import: no usable truck-trailer pairs in this file.</p>
+      ) : changeCount === 0 ? (
+        <p className="text-gray-600 mb-2">No changes: the database already matches this file.</p>
+      ) : (
+        <>
+          <ChangeSection
+            title="Added"
+            color="text-green-700"
+            trucks={Array.from(addedByTruck.keys())}
+            rejected={rejected}
+            onToggle={handleToggle}
+            onToggleAll={handleToggleAll}
+            renderChange={(truck) => `${truck} → ${addedByTruck.get(truck)?.trailer}`}
+          />
+          <ChangeSection
+            title="Trailer changed"
+            color="text-amber-700"
+            trucks={Array.from(changedByTruck.keys())}
+            rejected={rejected}
+            onToggle={handleToggle}
+            onToggleAll={handleToggleAll}
+            renderChange={(truck) => {
+              const change = changedByTruck.get(truck)
+              return `${truck}: ${change?.before.trailer || "-"} → ${change?.after.trailer || "-"}`
+            }}
+          />
+          <ChangeSection
+            title="Removed"
+            color="text-red-700"
+            trucks={Array.from(removedByTruck.keys())}
+            rejected={rejected}
+            onToggle={handleToggle}
+            onToggleAll={handleToggleAll}
+            renderChange={(truck) => `${truck} (${removedByTruck.get(truck)?.trailer})`}
+          />
+        </>
+      )}
+
+      <ImportReport fileName={preview.fileName} warnings={preview.warnings} />
+
+      <div className="flex space-x-2">
+        <button
+          onClick={() => onApply(rejected)}
+          disabled={isLoading || changeCount === 0}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm disabled:cursor-not-allowed"
+        >
+          {isLoading ? "Applying..." : `Apply ${changeCount - rejected.size} Change(s)`}
+        </button>
+        <button onClick={onCancel} className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm">
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default memo(ImportPreview)
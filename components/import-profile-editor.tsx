@@ -0,0 +1,148 @@
+"use client"
+
+import type React from "react"
+import { useState, useCallback, memo } from "react"
+import type { HtmlImportProfile } from "@/utils/import-profiles"
+
+interface ImportProfileEditorProps {
+  profile: HtmlImportProfile
+  // Throws with a readable message when the profile is invalid
+  onSave: (profile: HtmlImportProfile) => void
+  onCancel: () => void
+}
+
+// Empty number inputs mean "no limit"
+const toOptionalNumber = (value: string): number | null => (value.trim() === "" ? null : Number(value))
+
+const Field = ({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) => (
+  <label className="flex items-center space-x-2">
+    <span className="w-40 shrink-0">{label}</span>
+    {children}
+    {hint && <span className="text-gray-500">{hint}</span>}
+  </label>
+)
+
+function ImportProfileEditor({ profile, onSave, onCancel }: ImportProfileEditorProps) {
+  const [draft, setDraft] = useState<HtmlImportProfile>(profile)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = useCallback((changes: Partial<HtmlImportProfile>) => {
+    setDraft((prev) => ({ ...prev, ...changes }))
+  }, [])
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault()
+      setError(null)
+
+      try {
+        onSave(draft)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not save the profile")
+      }
+    },
+    [draft, onSave],
+  )
+
+  const inputClass = "border border-gray-300 rounded px-1 py-0.5"
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-3 p-2 bg-white border border-gray-300 rounded space-y-1 text-xs">
+      <Field label="Name">
+        <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+      </Field>
+      <Field label="Truck elements" hint='e.g. "span.x14, span.x15"'>
+        <input
+          type="text"
+          value={draft.truckSelector}
+          onChange={(e) => update({ truckSelector: e.target.value })}
+          className={`${inputClass} font-mono`}
+        />
+      </Field>
+      <Field label="Truck pattern" hint="regular expression">
+        <input
+          type="text"
+          value={draft.truckPattern}
+          onChange={(e) => update({ truckPattern: e.target.value })}
+          className={`${inputClass} font-mono`}
+        />
+      </Field>
+      <Field label="Truck number range" hint="empty = no limit">
+        <input
+          type="number"
+          min={0}
+          value={draft.truckMin ?? ""}
+          onChange={(e) => update({ truckMin: toOptionalNumber(e.target.value) })}
+          className={`${inputClass} w-20`}
+        />
+        <span>to</span>
+        <input
+          type="number"
+          min={0}
+          value={draft.truckMax ?? ""}
+          onChange={(e) => update({ truckMax: toOptionalNumber(e.target.value) })}
+          className={`${inputClass} w-20`}
+        />
+      </Field>
+      <Field label="Pad truck numbers to" hint="digits, 0 = keep as is">
+        <input
+          type="number"
+          min={0}
+          value={draft.truckPadLength}
+          onChange={(e) => update({ truckPadLength: Number(e.target.value) })}
+          className={`${inputClass} w-20`}
+        />
+      </Field>
+      <Field label="Trailer column" hint="0 = first cell">
+        <input
+          type="number"
+          min={0}
+          value={draft.trailerColumn}
+          onChange={(e) => update({ trailerColumn: Number(e.target.value) })}
+          className={`${inputClass} w-20`}
+        />
+      </Field>
+      <Field label="Trailer pattern" hint="regular expression">
+        <input
+          type="text"
+          value={draft.trailerPattern}
+          onChange={(e) => update({ trailerPattern: e.target.value })}
+          className={`${inputClass} font-mono`}
+        />
+      </Field>
+      <Field label="Trailer letters">
+        <select
+          value={draft.trailerCase}
+          onChange={(e) => update({ trailerCase: e.target.value as HtmlImportProfile["trailerCase"] })}
+          className={inputClass}
+        >
+          <option value="upper">UPPER CASE</option>
+          <option value="lower">lower case</option>
+          <option value="keep">Keep as exported</option>
+        </select>
+      </Field>
+      <Field label="Search trailer within" hint="rows after the truck">
+        <input
+          type="number"
+          min={1}
+          value={draft.lookAheadRows}
+          onChange={(e) => update({ lookAheadRows: Number(e.target.value) })}
+          className={`${inputClass} w-20`}
+        />
+      </Field>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      <div className="flex space-x-2 pt-1">
+        <button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded">
+          Save Profile
+        </button>
+        <button type="button" onClick={onCancel} className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded">
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default memo(ImportProfileEditor)
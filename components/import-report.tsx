@@ -0,0 +1,62 @@
+"use client"
+
+import { useCallback, memo } from "react"
+import { warningsToCsv, type ImportWarning } from "@/utils/import-report"
+
+interface ImportReportProps {
+  fileName: string
+  warnings: ImportWarning[]
+}
+
+// Collapsible list of the rows a parser skipped, downloadable as CSV
+function ImportReport({ fileName, warnings }: ImportReportProps) {
+  const handleDownload = useCallback(() => {
+    const blob = new Blob([warningsToCsv(warnings)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${fileName.replace(/\.[^.]+$/, "")}-import-report.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }, [fileName, warnings])
+
+  if (warnings.length === 0) return null
+
+  return (
+    <details className="mb-2">
+      <summary className="cursor-pointer font-semibold text-amber-700">
+        Import report: {warnings.length} row(s) skipped or incomplete
+      </summary>
+      <div className="mt-1">
+        <button
+          onClick={handleDownload}
+          className="mb-1 bg-gray-500 hover:bg-gray-600 text-white px-2 py-0.5 rounded text-xs"
+        >
+          Download CSV
+        </button>
+        <div className="max-h-48 overflow-y-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="text-left bg-gray-100">
+                <th className="px-1">Row</th>
+                <th className="px-1">Reason</th>
+                <th className="px-1">Raw text</th>
+              </tr>
+            </thead>
+            <tbody>
+              {warnings.map((warning, index) => (
+                <tr key={`${warning.row}-${index}`} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                  <td className="px-1">{warning.row}</td>
+                  <td className="px-1">{warning.reason}</td>
+                  <td className="px-1 font-mono">{warning.raw}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+export default memo(ImportReport)
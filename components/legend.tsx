@@ -1,4 +1,10 @@
+"use client"
+
+import { useSettings } from "@/contexts/settings-context"
+
 export default function Legend() {
+  const { settings } = useSettings()
+
   return (
     <div className="legend">
       <div className="legend-item">
@@ -9,10 +15,26 @@ export default function Legend() {
         <div className="legend-color active"></div>
         <span>Occupied</span>
       </div>
+      <div className="legend-item">
+        <div className="legend-color reserved"></div>
+        <span>Reserved</span>
+      </div>
+      <div className="legend-item">
+        <div className="legend-color overdue"></div>
+        <span>Overdue (&gt; {settings.dwellThresholdMinutes} min)</span>
+      </div>
       <div className="legend-item">
         <div className="legend-color defect"></div>
         <span>Defect</span>
       </div>
+      <div className="legend-item">
+        <div className="legend-color conflict"></div>
+        <span>Truck or trailer on two ramps</span>
+      </div>
+      <div className="legend-item">
+        <div className="legend-color lookup-mismatch"></div>
+        <span>Pair differs from lookup</span>
+      </div>
     </div>
   )
 }
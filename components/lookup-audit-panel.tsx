@@ -0,0 +1,146 @@
+"use client"
+
+import { useState, useEffect, memo } from "react"
+import {
+  useLookupAudit,
+  type LookupAuditAction,
+  type LookupAuditEntry,
+  type LookupAuditSource,
+} from "@/contexts/lookup-audit-context"
+
+interface LookupAuditPanelProps {
+  onClose: () => void
+}
+
+const actionLabels: Record<LookupAuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+}
+
+const actionColors: Record<LookupAuditAction, string> = {
+  create: "text-green-700",
+  update: "text-amber-700",
+  delete: "text-red-700",
+}
+
+const sourceLabels: Record<LookupAuditSource, string> = {
+  "html-import": "HTML import",
+  "excel-import": "Excel import",
+  "lookup-import": "CSV/JSON import",
+  manual: "Manual entry",
+  restore: "Backup restore",
+  rollback: "Rollback",
+  clear: "Clear all",
+}
+
+// Memoized audit row component
+const AuditRow = memo(({ entry, index }: { entry: LookupAuditEntry; index: number }) => (
+  <tr className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+    <td className="px-1 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+    <td className={`px-1 ${actionColors[entry.action]}`}>{actionLabels[entry.action]}</td>
+    <td className="px-1 font-mono">{entry.truck}</td>
+    <td className="px-1 font-mono">
+      {entry.oldTrailer || "-"} → {entry.newTrailer || "-"}
+    </td>
+    <td className="px-1">
+      {sourceLabels[entry.source]}
+      {entry.fileName && <span className="text-gray-500"> ({entry.fileName})</span>}
+    </td>
+    <td className="px-1 font-mono text-gray-500">{entry.syncId.substring(0, 12)}</td>
+  </tr>
+))
+
+AuditRow.displayName = "AuditRow"
+
+function LookupAuditPanel({ onClose }: LookupAuditPanelProps) {
+  const { entries, searchLookupAudit } = useLookupAudit()
+  const [query, setQuery] = useState("")
+  const [source, setSource] = useState<LookupAuditSource | null>(null)
+  const [results, setResults] = useState<LookupAuditEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Search again when the filter changes or a change was recorded on this device; typing is debounced
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(() => {
+      setIsLoading(true)
+      searchLookupAudit({ query, source })
+        .then((matches) => {
+          if (!cancelled) setResults(matches)
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false)
+        })
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, source, searchLookupAudit, entries.length])
+
+  return (
+    <div className="mb-3 p-2 bg-white border border-gray-300 rounded shadow-sm text-xs">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center space-x-2">
+          <h4 className="font-semibold text-sm">Audit Trail</h4>
+          {isLoading && <span className="text-gray-500">Loading...</span>}
+        </div>
+        <button onClick={onClose} className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs">
+          Close
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search truck or trailer"
+          className="flex-1 border border-gray-300 rounded px-1 py-0.5"
+        />
+        <select
+          value={source || ""}
+          onChange={(e) => setSource((e.target.value as LookupAuditSource) || null)}
+          className="border border-gray-300 rounded px-1 py-0.5"
+        >
+          <option value="">All sources</option>
+          {Object.entries(sourceLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-gray-500">
+          {query || source ? "No changes match this search" : "No changes to truck-trailer pairs recorded yet"}
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gray-200 text-left">
+                <th className="px-1">Time</th>
+                <th className="px-1">Action</th>
+                <th className="px-1">Truck</th>
+                <th className="px-1">Trailer</th>
+                <th className="px-1">Source</th>
+                <th className="px-1">Device</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((entry, index) => (
+                <AuditRow key={entry.id} entry={entry} index={index} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default memo(LookupAuditPanel)
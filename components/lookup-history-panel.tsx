@@ -0,0 +1,235 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo, memo } from "react"
+import { useLookup } from "@/contexts/lookup-context"
+import { useLookupSnapshots, type LookupSnapshot, type LookupSnapshotSource } from "@/contexts/lookup-snapshot-context"
+import { useSupabaseSync } from "@/contexts/supabase-sync-context"
+import { diffLookupData } from "@/utils/lookup-diff"
+
+interface LookupHistoryPanelProps {
+  onClose: () => void
+}
+
+const sourceLabels: Record<LookupSnapshotSource, string> = {
+  baseline: "Existing data",
+  import: "Import",
+  manual: "Manual entry",
+  clear: "Cleared",
+  restore: "Backup restore",
+  rollback: "Rollback",
+}
+
+const describeSnapshot = (snapshot: LookupSnapshot) =>
+  `v${snapshot.version} · ${sourceLabels[snapshot.source]} · ${new Date(snapshot.timestamp).toLocaleString()}`
+
+// Memoized version row component
+const SnapshotRow = memo(
+  ({
+    snapshot,
+    index,
+    isCurrent,
+    isOwnDevice,
+    disabled,
+    onRollback,
+  }: {
+    snapshot: LookupSnapshot
+    index: number
+    isCurrent: boolean
+    isOwnDevice: boolean
+    disabled: boolean
+    onRollback: (snapshot: LookupSnapshot) => void
+  }) => (
+    <tr className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+      <td className="px-1 font-semibold">
+        v{snapshot.version}
+        {!snapshot.synced && (
+          <span className="text-gray-500" title="Not uploaded yet; the version number may still change">
+            *
+          </span>
+        )}
+      </td>
+      <td className="px-1 whitespace-nowrap">{new Date(snapshot.timestamp).toLocaleString()}</td>
+      <td className="px-1">{sourceLabels[snapshot.source]}</td>
+      <td className="px-1">{snapshot.note || snapshot.fileName || ""}</td>
+      <td className="px-1 text-right">{snapshot.rowCount}</td>
+      <td className="px-1 font-mono text-gray-500">
+        {snapshot.syncId.substring(0, 12)}
+        {isOwnDevice && <span className="font-sans"> (this device)</span>}
+      </td>
+      <td className="px-1">
+        {isCurrent ? (
+          <span className="text-green-700">Current</span>
+        ) : (
+          <button
+            onClick={() => onRollback(snapshot)}
+            disabled={disabled}
+            className="bg-amber-500 hover:bg-amber-600 disabled:bg-gray-400 text-white px-2 py-0.5 rounded disabled:cursor-not-allowed"
+          >
+            Roll back
+          </button>
+        )}
+      </td>
+    </tr>
+  ),
+)
+
+SnapshotRow.displayName = "SnapshotRow"
+
+function LookupHistoryPanel({ onClose }: LookupHistoryPanelProps) {
+  const { rollbackToSnapshot, isLoading: isApplying } = useLookup()
+  const { snapshots, loadSnapshots } = useLookupSnapshots()
+  const { syncId } = useSupabaseSync()
+  const [history, setHistory] = useState<LookupSnapshot[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [compareFromId, setCompareFromId] = useState<string | null>(null)
+  const [compareToId, setCompareToId] = useState<string | null>(null)
+
+  // Reload when a new version was recorded on this device
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+
+    loadSnapshots()
+      .then((versions) => {
+        if (cancelled) return
+        setHistory(versions)
+        // Compare the two latest versions until the user picks others
+        setCompareToId(versions[0]?.id || null)
+        setCompareFromId(versions[1]?.id || null)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [loadSnapshots, snapshots.length])
+
+  const compareFrom = history.find((snapshot) => snapshot.id === compareFromId)
+  const compareTo = history.find((snapshot) => snapshot.id === compareToId)
+
+  const diff = useMemo(
+    () => (compareFrom && compareTo ? diffLookupData(compareFrom.entries, compareTo.entries) : null),
+    [compareFrom, compareTo],
+  )
+
+  const handleRollback = useCallback(
+    (snapshot: LookupSnapshot) => {
+      if (
+        window.confirm(
+          `Roll the lookup data back to version ${snapshot.version} (${snapshot.rowCount} pairs)? ` +
+            "This is synced to all devices and recorded as a new version.",
+        )
+      ) {
+        rollbackToSnapshot(snapshot)
+      }
+    },
+    [rollbackToSnapshot],
+  )
+
+  return (
+    <div className="mb-3 p-2 bg-white border border-gray-300 rounded shadow-sm text-xs">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center space-x-2">
+          <h4 className="font-semibold text-sm">Version History</h4>
+          {isLoading && <span className="text-gray-500">Loading...</span>}
+        </div>
+        <button onClick={onClose} className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs">
+          Close
+        </button>
+      </div>
+
+      {history.length === 0 ? (
+        <p className="text-gray-500">No versions recorded yet. Every import, manual entry and clear adds one.</p>
+      ) : (
+        <>
+          <div className="max-h-48 overflow-y-auto mb-2">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-200 text-left">
+                  <th className="px-1">Version</th>
+                  <th className="px-1">Time</th>
+                  <th className="px-1">Change</th>
+                  <th className="px-1">File / detail</th>
+                  <th className="px-1 text-right">Rows</th>
+                  <th className="px-1">Device</th>
+                  <th className="px-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((snapshot, index) => (
+                  <SnapshotRow
+                    key={snapshot.id}
+                    snapshot={snapshot}
+                    index={index}
+                    isCurrent={index === 0}
+                    isOwnDevice={snapshot.syncId === syncId}
+                    disabled={isApplying}
+                    onRollback={handleRollback}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <span>Compare</span>
+            <select
+              value={compareFromId || ""}
+              onChange={(e) => setCompareFromId(e.target.value)}
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              {history.map((snapshot) => (
+                <option key={snapshot.id} value={snapshot.id}>
+                  {describeSnapshot(snapshot)}
+                </option>
+              ))}
+            </select>
+            <span>→</span>
+            <select
+              value={compareToId || ""}
+              onChange={(e) => setCompareToId(e.target.value)}
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              {history.map((snapshot) => (
+                <option key={snapshot.id} value={snapshot.id}>
+                  {describeSnapshot(snapshot)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {diff && (
+            <div>
+              <p className="mb-1">
+                <span className="text-green-700">{diff.added.length} added</span>,{" "}
+                <span className="text-amber-700">{diff.changed.length} trailer changed</span>,{" "}
+                <span className="text-red-700">{diff.removed.length} removed</span>, {diff.unchangedCount} unchanged
+              </p>
+              <div className="max-h-40 overflow-y-auto border border-gray-200 rounded font-mono">
+                {diff.added.map((item) => (
+                  <div key={`added-${item.truck}`} className="px-1 text-green-700">
+                    + {item.truck} → {item.trailer}
+                  </div>
+                ))}
+                {diff.changed.map((change) => (
+                  <div key={`changed-${change.truck}`} className="px-1 text-amber-700">
+                    ~ {change.truck}: {change.before.trailer} → {change.after.trailer}
+                  </div>
+                ))}
+                {diff.removed.map((item) => (
+                  <div key={`removed-${item.truck}`} className="px-1 text-red-700">
+                    - {item.truck} ({item.trailer})
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default memo(LookupHistoryPanel)
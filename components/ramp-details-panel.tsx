@@ -0,0 +1,137 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect, useCallback, memo } from "react"
+import type { RampStatus } from "./warehouse-visualization"
+import {
+  DEFECT_REASONS,
+  defectReasonLabels,
+  describeDefect,
+  type DefectReason,
+  type RampDefect,
+} from "@/lib/ramp-defects"
+
+interface RampDetailsPanelProps {
+  rampNumber: number
+  status: RampStatus | undefined
+  onReportDefect: (rampNumber: number, defect: RampDefect) => void
+  onResolveDefect: (rampNumber: number) => void
+  onShowHistory: (rampNumber: number) => void
+  onClose: () => void
+}
+
+function RampDetailsPanel({
+  rampNumber,
+  status,
+  onReportDefect,
+  onResolveDefect,
+  onShowHistory,
+  onClose,
+}: RampDetailsPanelProps) {
+  const [reason, setReason] = useState<DefectReason>("door")
+  const [note, setNote] = useState("")
+  const [reportedBy, setReportedBy] = useState("")
+
+  // The reporter is usually the same person on a device
+  useEffect(() => {
+    setReportedBy(localStorage.getItem("defectReporterName") || "")
+  }, [])
+
+  // Start with an empty form for every ramp
+  useEffect(() => {
+    setReason("door")
+    setNote("")
+  }, [rampNumber])
+
+  const handleReport = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault()
+      localStorage.setItem("defectReporterName", reportedBy.trim())
+      onReportDefect(rampNumber, {
+        reason,
+        note: note.trim(),
+        reportedBy: reportedBy.trim(),
+        reportedAt: new Date().toISOString(),
+      })
+      setNote("")
+    },
+    [onReportDefect, rampNumber, reason, note, reportedBy],
+  )
+
+  const defect = status?.defect
+
+  return (
+    <div className="mb-4 p-2 bg-white border border-gray-300 rounded shadow-sm text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-semibold">Ramp {rampNumber}</h4>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onShowHistory(rampNumber)}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-2 py-1 rounded text-xs"
+          >
+            Show History
+          </button>
+          <button onClick={onClose} className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-2">
+        {status?.active ? "Occupied" : "Free"}
+        {status?.truckValue || status?.trailerValue
+          ? ` — truck ${status.truckValue || "-"}, trailer ${status.trailerValue || "-"}`
+          : ""}
+      </p>
+
+      {defect ? (
+        <div className="p-2 bg-yellow-50 border border-yellow-300 rounded">
+          <p className="font-semibold text-yellow-800">⚠️ {describeDefect(defect)}</p>
+          <p className="text-xs text-gray-600">
+            Reported {defect.reportedBy ? `by ${defect.reportedBy} ` : ""}on{" "}
+            {new Date(defect.reportedAt).toLocaleString()}
+          </p>
+          <button
+            onClick={() => onResolveDefect(rampNumber)}
+            className="mt-2 bg-green-600 hover:bg-green-700 text-white px-2 py-1 rounded text-xs"
+          >
+            Resolve Defect
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleReport} className="flex flex-wrap items-center gap-2">
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as DefectReason)}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {DEFECT_REASONS.map((option) => (
+              <option key={option} value={option}>
+                {defectReasonLabels[option]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What is wrong?"
+            className="border border-gray-300 rounded px-1 py-0.5 flex-1 min-w-[160px]"
+          />
+          <input
+            type="text"
+            value={reportedBy}
+            onChange={(e) => setReportedBy(e.target.value)}
+            placeholder="Your name"
+            className="border border-gray-300 rounded px-1 py-0.5 w-32"
+          />
+          <button type="submit" className="bg-yellow-500 hover:bg-yellow-600 text-white px-2 py-1 rounded text-xs">
+            Report Defect
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
+
+export default memo(RampDetailsPanel)
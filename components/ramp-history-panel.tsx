@@ -0,0 +1,157 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect, useCallback, useMemo, memo } from "react"
+import { useRampHistory, type RampEvent, type RampState } from "@/contexts/ramp-history-context"
+
+interface RampHistoryPanelProps {
+  rampNumbers: number[]
+  selectedRamp: number
+  onSelectRamp: (rampNumber: number) => void
+  onClose: () => void
+}
+
+const stateLabels: Record<RampState, string> = {
+  free: "Free",
+  occupied: "Occupied",
+  defect: "Defect",
+}
+
+const stateColors: Record<RampState, string> = {
+  free: "text-green-700",
+  occupied: "text-red-600",
+  defect: "text-yellow-600",
+}
+
+// Memoized history row component
+const EventRow = memo(({ event, index }: { event: RampEvent; index: number }) => (
+  <tr className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+    <td className="px-1 whitespace-nowrap">{new Date(event.timestamp).toLocaleString()}</td>
+    <td className="px-1 whitespace-nowrap">
+      <span className={stateColors[event.previousState]}>{stateLabels[event.previousState]}</span>
+      {" → "}
+      <span className={stateColors[event.nextState]}>{stateLabels[event.nextState]}</span>
+    </td>
+    <td className="px-1 font-mono">{event.truck || "-"}</td>
+    <td className="px-1 font-mono">{event.trailer || "-"}</td>
+    <td className="px-1">{event.detail || ""}</td>
+    <td className="px-1 font-mono text-gray-500">{event.syncId.substring(0, 12)}</td>
+  </tr>
+))
+
+EventRow.displayName = "EventRow"
+
+// Current value for a datetime-local input
+const toLocalInputValue = (date: Date) => {
+  const offsetDate = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return offsetDate.toISOString().slice(0, 16)
+}
+
+function RampHistoryPanel({ rampNumbers, selectedRamp, onSelectRamp, onClose }: RampHistoryPanelProps) {
+  const { events, loadRampHistory } = useRampHistory()
+  const [history, setHistory] = useState<RampEvent[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [queryTime, setQueryTime] = useState(() => toLocalInputValue(new Date()))
+
+  // Reload when the ramp changes or a new event was recorded on this device
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+
+    loadRampHistory(selectedRamp)
+      .then((rampHistory) => {
+        if (!cancelled) setHistory(rampHistory)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedRamp, loadRampHistory, events.length])
+
+  const handleRampChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      onSelectRamp(Number(e.target.value))
+    },
+    [onSelectRamp],
+  )
+
+  // Answer "who was at this ramp at that time" from the last event before it
+  const occupantAtTime = useMemo(() => {
+    const time = new Date(queryTime).getTime()
+    if (Number.isNaN(time)) return null
+
+    const lastEvent = history.find((event) => new Date(event.timestamp).getTime() <= time)
+    if (!lastEvent) return "No history recorded before this time"
+    if (lastEvent.nextState === "free") return "Free"
+
+    const occupant = [lastEvent.truck && `Truck ${lastEvent.truck}`, lastEvent.trailer && `Trailer ${lastEvent.trailer}`]
+      .filter(Boolean)
+      .join(", ")
+    return `${stateLabels[lastEvent.nextState]}${occupant ? `: ${occupant}` : ""}`
+  }, [history, queryTime])
+
+  return (
+    <div className="mb-4 p-2 bg-white border border-gray-300 rounded shadow-sm">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center space-x-2">
+          <h4 className="font-semibold text-sm">Ramp History</h4>
+          <select
+            value={selectedRamp}
+            onChange={handleRampChange}
+            className="border border-gray-300 rounded px-1 py-0.5 text-sm"
+          >
+            {rampNumbers.map((rampNumber) => (
+              <option key={rampNumber} value={rampNumber}>
+                Ramp {rampNumber}
+              </option>
+            ))}
+          </select>
+          {isLoading && <span className="text-xs text-gray-500">Loading...</span>}
+        </div>
+        <button onClick={onClose} className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs">
+          Close
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-2 text-xs">
+        <span className="text-gray-600">At</span>
+        <input
+          type="datetime-local"
+          value={queryTime}
+          onChange={(e) => setQueryTime(e.target.value)}
+          className="border border-gray-300 rounded px-1 py-0.5"
+        />
+        <span className="font-semibold">{occupantAtTime}</span>
+      </div>
+
+      {history.length === 0 ? (
+        <p className="text-xs text-gray-500">No events recorded for ramp {selectedRamp}</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="bg-gray-200 text-left">
+                <th className="px-1">Time</th>
+                <th className="px-1">Change</th>
+                <th className="px-1">Truck</th>
+                <th className="px-1">Trailer</th>
+                <th className="px-1">Detail</th>
+                <th className="px-1">Device</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((event, index) => (
+                <EventRow key={event.id} event={event} index={index} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default memo(RampHistoryPanel)
@@ -6,6 +6,11 @@ import { useState, useEffect, useRef, useCallback } from "react"
 interface RampInputFieldProps {
   value: string
   onChange: (value: string) => void
+  // Enter or leaving the field; the paired field is looked up then
+  onConfirm: (value: string) => void
+  // Keys for the suggestion list; returns true when the list used the key
+  onSuggestionKey?: (key: string) => boolean
+  hasSuggestions?: boolean
   placeholder: string
   inputType: "truck" | "trailer"
   rampNum: number
@@ -15,6 +20,9 @@ interface RampInputFieldProps {
 export default function RampInputField({
   value,
   onChange,
+  onConfirm,
+  onSuggestionKey,
+  hasSuggestions = false,
   placeholder,
   inputType,
   rampNum,
@@ -32,34 +40,39 @@ export default function RampInputField({
     }
   }, [value])
 
-  // Handle input change - now triggers onChange immediately for every keystroke
+  // Every keystroke updates the ramp and the suggestions; nothing is auto-filled yet
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const newValue = e.target.value
       setLocalValue(newValue)
-
-      // Immediately trigger the onChange to perform lookup on every keystroke
       onChange(newValue)
       previousValueRef.current = newValue
     },
     [onChange],
   )
 
-  // Still keep blur handler for any edge cases
   const handleBlur = useCallback(() => {
-    // Only trigger if somehow the value changed without triggering handleChange
+    // Only needed if somehow the value changed without triggering handleChange
     if (localValue !== previousValueRef.current) {
       onChange(localValue)
       previousValueRef.current = localValue
     }
-  }, [localValue, onChange])
+    onConfirm(localValue)
+  }, [localValue, onChange, onConfirm])
 
-  // Keep Enter key handler for convenience
-  const handleKeyPress = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter") {
-      inputRef.current?.blur()
-    }
-  }, [])
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (onSuggestionKey?.(e.key)) {
+        e.preventDefault()
+        return
+      }
+      // Enter confirms the typed value (through blur)
+      if (e.key === "Enter") {
+        inputRef.current?.blur()
+      }
+    },
+    [onSuggestionKey],
+  )
 
   return (
     <input
@@ -68,9 +81,12 @@ export default function RampInputField({
       value={localValue}
       onChange={handleChange}
       onBlur={handleBlur}
-      onKeyPress={handleKeyPress}
+      onKeyDown={handleKeyDown}
       className={`input-field ${isHighlighted ? "highlight-filled" : ""}`}
       placeholder={placeholder}
+      autoComplete="off"
+      aria-autocomplete="list"
+      aria-expanded={hasSuggestions}
       data-ramp={rampNum}
       data-input-type={inputType}
     />
@@ -0,0 +1,165 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect, useCallback, useMemo, memo } from "react"
+import { useLayout } from "@/contexts/layout-context"
+import { useLookup } from "@/contexts/lookup-context"
+import { useReservations } from "@/contexts/reservation-context"
+import { useSettings } from "@/contexts/settings-context"
+import { computeRampPositions } from "@/lib/layout-definition"
+import { suggestRamps } from "@/lib/ramp-suggestions"
+import type { RampStatus } from "./warehouse-visualization"
+
+interface RampSuggestionPanelProps {
+  rampStatus: Record<number, RampStatus>
+  // Ramp to highlight on the map, or null to clear it
+  onHighlight: (rampNumber: number | null) => void
+  onAssign: (truck: string, trailer: string, rampNumber: number) => boolean
+  onClose: () => void
+}
+
+// How many ranked ramps to list
+const MAX_SUGGESTIONS = 5
+
+function RampSuggestionPanel({ rampStatus, onHighlight, onAssign, onClose }: RampSuggestionPanelProps) {
+  const { layout, rampNumbers } = useLayout()
+  const { lookupTrailerByTruck, lookupTruckByTrailer } = useLookup()
+  const { reservations } = useReservations()
+  const { settings } = useSettings()
+  const [input, setInput] = useState("")
+  const [selectedRamp, setSelectedRamp] = useState<number | null>(null)
+
+  const rampPositions = useMemo(() => computeRampPositions(layout), [layout])
+
+  // The number can be either a truck or a trailer; the lookup fills in the other half
+  const vehicle = useMemo(() => {
+    const value = input.trim()
+    if (!value) return null
+
+    const trailer = lookupTrailerByTruck(value)
+    if (trailer) return { truck: value, trailer, isKnown: true }
+    const truck = lookupTruckByTrailer(value)
+    if (truck) return { truck, trailer: value, isKnown: true }
+    return { truck: value, trailer: "", isKnown: false }
+  }, [input, lookupTrailerByTruck, lookupTruckByTrailer])
+
+  const suggestions = useMemo(() => {
+    if (!vehicle) return []
+    // An unknown number may be either, so it is matched as both
+    return suggestRamps({
+      truck: vehicle.truck,
+      trailer: vehicle.isKnown ? vehicle.trailer : vehicle.truck,
+      rampNumbers,
+      rampStatus,
+      rampPositions,
+      reservations,
+      reservationLeadMinutes: settings.reservationLeadMinutes,
+      preferences: settings.rampSuggestions,
+    }).slice(0, MAX_SUGGESTIONS)
+  }, [vehicle, rampNumbers, rampStatus, rampPositions, reservations, settings])
+
+  const highlightedRamp =
+    selectedRamp !== null && suggestions.some((suggestion) => suggestion.rampNumber === selectedRamp)
+      ? selectedRamp
+      : suggestions[0]?.rampNumber ?? null
+
+  useEffect(() => {
+    onHighlight(highlightedRamp)
+  }, [highlightedRamp, onHighlight])
+
+  // Clear the highlight when the panel closes
+  useEffect(() => {
+    return () => onHighlight(null)
+  }, [onHighlight])
+
+  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setInput(e.target.value)
+    setSelectedRamp(null)
+  }, [])
+
+  const handleAssign = useCallback(
+    (rampNumber: number) => {
+      if (!vehicle) return
+
+      if (onAssign(vehicle.truck, vehicle.trailer, rampNumber)) {
+        setInput("")
+        setSelectedRamp(null)
+      }
+    },
+    [vehicle, onAssign],
+  )
+
+  return (
+    <div className="mb-4 p-2 bg-white border border-gray-300 rounded shadow-sm text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-semibold">Suggest Ramp</h4>
+        <button onClick={onClose} className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs">
+          Close
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-2">
+        <input
+          type="text"
+          value={input}
+          onChange={handleInputChange}
+          placeholder="Truck or trailer number"
+          className="border border-gray-300 rounded px-1 py-0.5 w-48"
+          autoFocus
+        />
+        {vehicle?.isKnown && (
+          <span className="text-gray-600 text-xs font-mono">
+            {vehicle.truck} / {vehicle.trailer}
+          </span>
+        )}
+      </div>
+
+      {vehicle &&
+        (suggestions.length === 0 ? (
+          <p className="text-gray-500 text-xs">No free ramp available</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left bg-gray-100">
+                <th className="px-1">#</th>
+                <th className="px-1">Ramp</th>
+                <th className="px-1">Why</th>
+                <th className="px-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map((suggestion, index) => (
+                <tr
+                  key={suggestion.rampNumber}
+                  onClick={() => setSelectedRamp(suggestion.rampNumber)}
+                  className={`cursor-pointer ${
+                    suggestion.rampNumber === highlightedRamp ? "bg-amber-100" : index % 2 === 0 ? "bg-white" : "bg-gray-50"
+                  }`}
+                >
+                  <td className="px-1">{index + 1}</td>
+                  <td className="px-1 font-semibold">
+                    {suggestion.rampNumber}{" "}
+                    <span className="text-gray-500 font-normal">({rampPositions[suggestion.rampNumber]?.side})</span>
+                  </td>
+                  <td className="px-1">{suggestion.reasons.join(", ") || "Free"}</td>
+                  <td className="px-1">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleAssign(suggestion.rampNumber)
+                      }}
+                      className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-0.5 rounded text-xs"
+                    >
+                      Assign
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+    </div>
+  )
+}
+
+export default memo(RampSuggestionPanel)
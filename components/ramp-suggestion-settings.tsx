@@ -0,0 +1,154 @@
+"use client"
+
+import type React from "react"
+import { useState, useCallback, memo } from "react"
+import { useSettings } from "@/contexts/settings-context"
+import { useLayout } from "@/contexts/layout-context"
+import { RAMP_SIDES, type RampSide } from "@/lib/layout-definition"
+import { formatRampList, parseRampList, type RampGroup } from "@/lib/ramp-suggestions"
+
+const sideLabels: Record<RampSide, string> = {
+  left: "Left",
+  right: "Right",
+  bottom: "Bottom",
+}
+
+// Preferences for the ramp suggestions: side order and ramp groups kept for carriers or trailer prefixes
+function RampSuggestionSettings() {
+  const { settings, updateSettings } = useSettings()
+  const { rampNumbers: layoutRampNumbers } = useLayout()
+  const preferences = settings.rampSuggestions
+  const [groupName, setGroupName] = useState("")
+  const [groupRamps, setGroupRamps] = useState("")
+  const [groupPrefixes, setGroupPrefixes] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  // Sides missing from an older saved order go last
+  const sideOrder = [...preferences.sideOrder, ...RAMP_SIDES.filter((side) => !preferences.sideOrder.includes(side))]
+
+  const moveSideUp = useCallback(
+    (index: number) => {
+      if (index === 0) return
+      const nextOrder = [...sideOrder]
+      ;[nextOrder[index - 1], nextOrder[index]] = [nextOrder[index], nextOrder[index - 1]]
+      updateSettings({ rampSuggestions: { ...preferences, sideOrder: nextOrder } })
+    },
+    [sideOrder, preferences, updateSettings],
+  )
+
+  const handleAddGroup = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault()
+      setError(null)
+
+      try {
+        const rampNumbers = parseRampList(groupRamps, layoutRampNumbers)
+        const prefixes = groupPrefixes
+          .split(",")
+          .map((prefix) => prefix.trim())
+          .filter(Boolean)
+        if (!groupName.trim()) throw new Error("Enter a group name")
+        if (rampNumbers.length === 0) throw new Error("Enter the ramps of the group")
+        if (prefixes.length === 0) throw new Error("Enter at least one truck or trailer prefix")
+
+        const group: RampGroup = { name: groupName.trim(), rampNumbers, prefixes }
+        updateSettings({ rampSuggestions: { ...preferences, rampGroups: [...preferences.rampGroups, group] } })
+        setGroupName("")
+        setGroupRamps("")
+        setGroupPrefixes("")
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not add the group")
+      }
+    },
+    [groupName, groupRamps, groupPrefixes, layoutRampNumbers, preferences, updateSettings],
+  )
+
+  const handleRemoveGroup = useCallback(
+    (index: number) => {
+      updateSettings({
+        rampSuggestions: { ...preferences, rampGroups: preferences.rampGroups.filter((_, i) => i !== index) },
+      })
+    },
+    [preferences, updateSettings],
+  )
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-200 text-sm">
+      <h5 className="font-semibold mb-1">Ramp Suggestions</h5>
+
+      <div className="flex items-center space-x-2">
+        <span>Preferred sides:</span>
+        {sideOrder.map((side, index) => (
+          <span key={side} className="flex items-center border border-gray-300 rounded px-1">
+            {index + 1}. {sideLabels[side]}
+            {index > 0 && (
+              <button onClick={() => moveSideUp(index)} className="ml-1 text-blue-600" title="Prefer this side">
+                ↑
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      {preferences.rampGroups.length > 0 && (
+        <table className="w-full text-xs mt-2">
+          <thead>
+            <tr className="text-left bg-gray-100">
+              <th className="px-1">Group</th>
+              <th className="px-1">Ramps</th>
+              <th className="px-1">Prefixes</th>
+              <th className="px-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {preferences.rampGroups.map((group, index) => (
+              <tr key={`${group.name}-${index}`} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                <td className="px-1">{group.name}</td>
+                <td className="px-1">{formatRampList(group.rampNumbers)}</td>
+                <td className="px-1 font-mono">{group.prefixes.join(", ")}</td>
+                <td className="px-1">
+                  <button
+                    onClick={() => handleRemoveGroup(index)}
+                    className="bg-red-500 hover:bg-red-600 text-white px-2 py-0.5 rounded text-xs"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleAddGroup} className="flex flex-wrap items-center gap-2 mt-2">
+        <input
+          type="text"
+          value={groupName}
+          onChange={(e) => setGroupName(e.target.value)}
+          placeholder="Group name"
+          className="border border-gray-300 rounded px-1 py-0.5 w-28"
+        />
+        <input
+          type="text"
+          value={groupRamps}
+          onChange={(e) => setGroupRamps(e.target.value)}
+          placeholder="Ramps, e.g. 1-5, 8"
+          className="border border-gray-300 rounded px-1 py-0.5 w-36"
+        />
+        <input
+          type="text"
+          value={groupPrefixes}
+          onChange={(e) => setGroupPrefixes(e.target.value)}
+          placeholder="Prefixes, e.g. o-"
+          className="border border-gray-300 rounded px-1 py-0.5 w-32"
+        />
+        <button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded text-xs">
+          Add Ramp Group
+        </button>
+      </form>
+      {error && <p className="text-red-600 text-xs mt-1">{error}</p>}
+    </div>
+  )
+}
+
+export default memo(RampSuggestionSettings)
@@ -46,17 +46,14 @@ export default function RampsControl() {
     }))
   }
 
-  // Handle input change
+  // Handle input change (defects are reported in the ramp details, not typed in)
   const handleInputChange = (rampNumber: number, value: string) => {
-    const lowerValue = value.trim().toLowerCase()
-
     setRampStatus((prev) => ({
       ...prev,
       [rampNumber]: {
         ...prev[rampNumber],
         inputValue: value,
-        yellow: lowerValue === "defect",
-        red: lowerValue !== "" && lowerValue !== "defect",
+        red: value.trim() !== "",
       },
     }))
   }
@@ -0,0 +1,69 @@
+"use client"
+
+import { useState, useEffect, memo } from "react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog"
+
+interface ReleaseConfirmDialogProps {
+  // Ramp waiting for confirmation, null when the dialog is closed
+  rampNumber: number | null
+  truck: string
+  trailer: string
+  onConfirm: (dontAskAgain: boolean) => void
+  onCancel: () => void
+}
+
+function ReleaseConfirmDialog({ rampNumber, truck, trailer, onConfirm, onCancel }: ReleaseConfirmDialogProps) {
+  const [dontAskAgain, setDontAskAgain] = useState(false)
+
+  // Start unchecked every time the dialog opens
+  useEffect(() => {
+    if (rampNumber !== null) setDontAskAgain(false)
+  }, [rampNumber])
+
+  return (
+    <AlertDialog open={rampNumber !== null} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Release ramp {rampNumber}?</AlertDialogTitle>
+          <AlertDialogDescription>The truck and trailer data of this ramp will be cleared.</AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <table className="text-sm">
+          <tbody>
+            <tr>
+              <td className="pr-4 text-gray-600">Truck</td>
+              <td className="font-semibold">{truck || "—"}</td>
+            </tr>
+            <tr>
+              <td className="pr-4 text-gray-600">Trailer</td>
+              <td className="font-semibold">{trailer || "—"}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        <label className="flex items-center space-x-2 text-sm">
+          <input type="checkbox" checked={dontAskAgain} onChange={(e) => setDontAskAgain(e.target.checked)} />
+          <span>Don&apos;t ask again for this session</span>
+        </label>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onConfirm(dontAskAgain)} className="bg-red-600 hover:bg-red-700">
+            Release
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export default memo(ReleaseConfirmDialog)
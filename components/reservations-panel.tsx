@@ -0,0 +1,219 @@
+"use client"
+
+import type React from "react"
+import { useState, useCallback, useMemo, memo } from "react"
+import { useReservations } from "@/contexts/reservation-context"
+import type { Reservation, ReservationStatus } from "@/lib/reservations"
+
+interface ReservationsPanelProps {
+  rampNumbers: number[]
+  onClose: () => void
+}
+
+const statusLabels: Record<ReservationStatus, string> = {
+  scheduled: "Scheduled",
+  arrived: "Arrived",
+  expired: "Expired",
+  cancelled: "Cancelled",
+}
+
+const statusColors: Record<ReservationStatus, string> = {
+  scheduled: "text-blue-700",
+  arrived: "text-green-700",
+  expired: "text-gray-500",
+  cancelled: "text-gray-500",
+}
+
+// Value for a datetime-local input
+const toLocalInputValue = (date: Date) => {
+  const offsetDate = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return offsetDate.toISOString().slice(0, 16)
+}
+
+const formatWindow = (reservation: Reservation) => {
+  const start = new Date(reservation.windowStart)
+  const end = new Date(reservation.windowEnd)
+  const endText =
+    start.toDateString() === end.toDateString()
+      ? end.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      : end.toLocaleString()
+  return `${start.toLocaleString([], { dateStyle: "short", timeStyle: "short" })} – ${endText}`
+}
+
+// Memoized reservation row component
+const ReservationRow = memo(
+  ({
+    reservation,
+    index,
+    onCancel,
+  }: {
+    reservation: Reservation
+    index: number
+    onCancel: (id: string) => void
+  }) => (
+    <tr className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+      <td className="px-1 font-semibold">{reservation.rampNumber}</td>
+      <td className="px-1 whitespace-nowrap">{formatWindow(reservation)}</td>
+      <td className="px-1 font-mono">{reservation.truck || "-"}</td>
+      <td className="px-1 font-mono">{reservation.trailer || "-"}</td>
+      <td className="px-1">{reservation.notes}</td>
+      <td className={`px-1 ${statusColors[reservation.status]}`}>{statusLabels[reservation.status]}</td>
+      <td className="px-1">
+        {reservation.status === "scheduled" && (
+          <button
+            onClick={() => onCancel(reservation.id)}
+            className="bg-red-500 hover:bg-red-600 text-white px-2 py-0.5 rounded text-xs"
+          >
+            Cancel
+          </button>
+        )}
+      </td>
+    </tr>
+  ),
+)
+
+ReservationRow.displayName = "ReservationRow"
+
+function ReservationsPanel({ rampNumbers, onClose }: ReservationsPanelProps) {
+  const { reservations, addReservation, setReservationStatus } = useReservations()
+  const [rampNumber, setRampNumber] = useState(rampNumbers[0])
+  const [truck, setTruck] = useState("")
+  const [trailer, setTrailer] = useState("")
+  const [windowStart, setWindowStart] = useState(() => toLocalInputValue(new Date()))
+  const [windowEnd, setWindowEnd] = useState(() => toLocalInputValue(new Date(Date.now() + 2 * 60 * 60 * 1000)))
+  const [notes, setNotes] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault()
+      setError(null)
+
+      try {
+        await addReservation({
+          rampNumber,
+          truck,
+          trailer,
+          windowStart: new Date(windowStart).toISOString(),
+          windowEnd: new Date(windowEnd).toISOString(),
+          notes,
+        })
+        setTruck("")
+        setTrailer("")
+        setNotes("")
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not save the reservation")
+      }
+    },
+    [addReservation, rampNumber, truck, trailer, windowStart, windowEnd, notes],
+  )
+
+  const handleCancel = useCallback(
+    (id: string) => {
+      setReservationStatus(id, "cancelled")
+    },
+    [setReservationStatus],
+  )
+
+  // Scheduled first, then the most recent ones
+  const sortedReservations = useMemo(
+    () =>
+      [...reservations].sort((a, b) => {
+        if ((a.status === "scheduled") !== (b.status === "scheduled")) return a.status === "scheduled" ? -1 : 1
+        return a.status === "scheduled"
+          ? a.windowStart.localeCompare(b.windowStart)
+          : b.windowStart.localeCompare(a.windowStart)
+      }),
+    [reservations],
+  )
+
+  return (
+    <div className="mb-4 p-2 bg-white border border-gray-300 rounded shadow-sm text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-semibold">Reservations</h4>
+        <button onClick={onClose} className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs">
+          Close
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 mb-2">
+        <select
+          value={rampNumber}
+          onChange={(e) => setRampNumber(Number(e.target.value))}
+          className="border border-gray-300 rounded px-1 py-0.5"
+        >
+          {rampNumbers.map((number) => (
+            <option key={number} value={number}>
+              Ramp {number}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={truck}
+          onChange={(e) => setTruck(e.target.value)}
+          placeholder="Truck"
+          className="border border-gray-300 rounded px-1 py-0.5 w-24"
+        />
+        <input
+          type="text"
+          value={trailer}
+          onChange={(e) => setTrailer(e.target.value)}
+          placeholder="Trailer"
+          className="border border-gray-300 rounded px-1 py-0.5 w-24"
+        />
+        <input
+          type="datetime-local"
+          value={windowStart}
+          onChange={(e) => setWindowStart(e.target.value)}
+          className="border border-gray-300 rounded px-1 py-0.5"
+        />
+        <span>to</span>
+        <input
+          type="datetime-local"
+          value={windowEnd}
+          onChange={(e) => setWindowEnd(e.target.value)}
+          className="border border-gray-300 rounded px-1 py-0.5"
+        />
+        <input
+          type="text"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Notes"
+          className="border border-gray-300 rounded px-1 py-0.5 flex-1 min-w-[120px]"
+        />
+        <button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded text-xs">
+          Reserve
+        </button>
+      </form>
+      {error && <p className="text-red-600 text-xs mb-2">{error}</p>}
+
+      {sortedReservations.length === 0 ? (
+        <p className="text-gray-500 text-xs">No reservations</p>
+      ) : (
+        <div className="max-h-60 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left bg-gray-100">
+                <th className="px-1">Ramp</th>
+                <th className="px-1">Window</th>
+                <th className="px-1">Truck</th>
+                <th className="px-1">Trailer</th>
+                <th className="px-1">Notes</th>
+                <th className="px-1">Status</th>
+                <th className="px-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedReservations.map((reservation, index) => (
+                <ReservationRow key={reservation.id} reservation={reservation} index={index} onCancel={handleCancel} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default memo(ReservationsPanel)
@@ -0,0 +1,136 @@
+"use client"
+
+import type React from "react"
+import { useCallback, memo } from "react"
+import { useSettings } from "@/contexts/settings-context"
+import { useLayout } from "@/contexts/layout-context"
+import RampSuggestionSettings from "./ramp-suggestion-settings"
+
+function SettingsPanel() {
+  const { settings, updateSettings, resetSettings } = useSettings()
+  const { layout, rampNumbers, isDefaultLayout, importLayout, resetLayout, layoutError } = useLayout()
+
+  const handleThresholdChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const minutes = Number.parseInt(e.target.value, 10)
+      if (!Number.isNaN(minutes) && minutes > 0) {
+        updateSettings({ dwellThresholdMinutes: minutes })
+      }
+    },
+    [updateSettings],
+  )
+
+  const handleLeadTimeChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const minutes = Number.parseInt(e.target.value, 10)
+      if (!Number.isNaN(minutes) && minutes >= 0) {
+        updateSettings({ reservationLeadMinutes: minutes })
+      }
+    },
+    [updateSettings],
+  )
+
+  const handleLayoutFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files
+      if (files && files.length > 0) {
+        await importLayout(files[0])
+        e.target.value = ""
+      }
+    },
+    [importLayout],
+  )
+
+  // Download the active layout as a starting point for another site
+  const handleLayoutExport = useCallback(() => {
+    const blob = new Blob([JSON.stringify(layout, null, 2)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `layout-${layout.id}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }, [layout])
+
+  return (
+    <div className="mb-4 p-2 bg-white border border-gray-300 rounded shadow-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-semibold text-sm">Settings</h4>
+        <button
+          onClick={resetSettings}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm">
+        <span>Flag trucks as overdue after</span>
+        <input
+          type="number"
+          min={1}
+          value={settings.dwellThresholdMinutes}
+          onChange={handleThresholdChange}
+          className="w-20 border border-gray-300 rounded px-1 py-0.5 text-center"
+        />
+        <span>minutes at the ramp</span>
+      </label>
+
+      <label className="flex items-center space-x-2 text-sm mt-2">
+        <span>Show ramps as reserved</span>
+        <input
+          type="number"
+          min={0}
+          value={settings.reservationLeadMinutes}
+          onChange={handleLeadTimeChange}
+          className="w-20 border border-gray-300 rounded px-1 py-0.5 text-center"
+        />
+        <span>minutes before the reservation window</span>
+      </label>
+
+      <label className="flex items-center space-x-2 text-sm mt-2">
+        <input
+          type="checkbox"
+          checked={settings.confirmRampRelease}
+          onChange={(e) => updateSettings({ confirmRampRelease: e.target.checked })}
+        />
+        <span>Ask for confirmation before releasing a ramp with truck/trailer data</span>
+      </label>
+
+      <div className="mt-3 pt-2 border-t border-gray-200">
+        <div className="flex items-center space-x-2 text-sm">
+          <span>
+            Layout: <span className="font-semibold">{layout.name}</span> ({rampNumbers.length} ramps
+            {isDefaultLayout ? ", default" : ""})
+          </span>
+          <button
+            onClick={() => document.getElementById("layout-upload")?.click()}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded text-xs"
+          >
+            Import Layout JSON
+          </button>
+          <button
+            onClick={handleLayoutExport}
+            className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs"
+          >
+            Export Layout
+          </button>
+          {!isDefaultLayout && (
+            <button
+              onClick={resetLayout}
+              className="bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded text-xs"
+            >
+              Use Default Layout
+            </button>
+          )}
+          <input id="layout-upload" type="file" accept=".json" onChange={handleLayoutFileChange} className="hidden" />
+        </div>
+        {layoutError && <p className="text-red-600 text-xs mt-1">{layoutError}</p>}
+      </div>
+
+      <RampSuggestionSettings />
+    </div>
+  )
+}
+
+export default memo(SettingsPanel)
@@ -0,0 +1,96 @@
+"use client"
+
+import type React from "react"
+import { useState, useCallback, memo } from "react"
+import { useSite } from "@/contexts/site-context"
+
+function SiteSelector() {
+  const { sites, activeSite, switchSite, addSite } = useSite()
+  const [isAdding, setIsAdding] = useState(false)
+  const [newSiteName, setNewSiteName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSiteChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      switchSite(e.target.value)
+    },
+    [switchSite],
+  )
+
+  const handleAddSite = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault()
+      setError(null)
+
+      try {
+        const site = await addSite(newSiteName)
+        setNewSiteName("")
+        setIsAdding(false)
+        switchSite(site.id)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not add site")
+      }
+    },
+    [addSite, switchSite, newSiteName],
+  )
+
+  const cancelAdd = useCallback(() => {
+    setIsAdding(false)
+    setNewSiteName("")
+    setError(null)
+  }, [])
+
+  return (
+    <div className="flex items-center space-x-2 text-sm">
+      <label htmlFor="site-select" className="text-xs text-gray-600">
+        Site:
+      </label>
+      <select
+        id="site-select"
+        value={activeSite.id}
+        onChange={handleSiteChange}
+        className="border border-gray-300 rounded px-1 py-0.5 text-sm"
+      >
+        {sites.map((site) => (
+          <option key={site.id} value={site.id}>
+            {site.name}
+          </option>
+        ))}
+      </select>
+
+      {isAdding ? (
+        <form onSubmit={handleAddSite} className="flex items-center space-x-1">
+          <input
+            type="text"
+            value={newSiteName}
+            onChange={(e) => setNewSiteName(e.target.value)}
+            placeholder="Site name"
+            autoFocus
+            className="border border-gray-300 rounded px-1 py-0.5 text-sm w-32"
+          />
+          <button type="submit" className="bg-green-500 hover:bg-green-600 text-white px-2 py-1 rounded text-xs">
+            Add
+          </button>
+          <button
+            type="button"
+            onClick={cancelAdd}
+            className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded text-xs"
+        >
+          + Add Site
+        </button>
+      )}
+
+      {error && <span className="text-red-600 text-xs">{error}</span>}
+    </div>
+  )
+}
+
+export default memo(SiteSelector)
@@ -0,0 +1,166 @@
+"use client"
+
+import { useState, useCallback, memo } from "react"
+import {
+  columnLabel,
+  defaultSpreadsheetOptions,
+  type SpreadsheetImportOptions,
+  type SpreadsheetSheetPreview,
+} from "@/utils/excel-parser"
+
+interface SpreadsheetColumnPickerProps {
+  fileName: string
+  sheets: SpreadsheetSheetPreview[]
+  onConfirm: (options: SpreadsheetImportOptions) => void
+  onCancel: () => void
+}
+
+// Columns and header setting are remembered, since carriers keep sending the same layout
+const loadSavedOptions = (sheets: SpreadsheetSheetPreview[]): SpreadsheetImportOptions => {
+  let saved: Partial<SpreadsheetImportOptions> = {}
+  try {
+    saved = JSON.parse(localStorage.getItem("spreadsheetImportOptions") || "{}")
+  } catch (e) {
+    console.error("❌ Failed to load spreadsheet import options", e)
+  }
+  const sheetName = sheets.some((sheet) => sheet.name === saved.sheetName) ? saved.sheetName! : sheets[0]?.name
+  return { ...defaultSpreadsheetOptions, ...saved, sheetName: sheetName ?? null }
+}
+
+function SpreadsheetColumnPicker({ fileName, sheets, onConfirm, onCancel }: SpreadsheetColumnPickerProps) {
+  const [options, setOptions] = useState<SpreadsheetImportOptions>(() => loadSavedOptions(sheets))
+
+  const sheet = sheets.find((candidate) => candidate.name === options.sheetName) || sheets[0]
+  const columnIndexes = Array.from({ length: Math.max(sheet?.columnCount || 0, 2) }, (_, i) => i)
+
+  const update = useCallback((changes: Partial<SpreadsheetImportOptions>) => {
+    setOptions((prev) => ({ ...prev, ...changes }))
+  }, [])
+
+  const handleConfirm = useCallback(() => {
+    localStorage.setItem("spreadsheetImportOptions", JSON.stringify(options))
+    onConfirm(options)
+  }, [options, onConfirm])
+
+  const columnClass = (index: number) =>
+    index === options.truckColumn ? "bg-blue-100" : index === options.trailerColumn ? "bg-amber-100" : ""
+
+  return (
+    <div className="mb-3 p-2 bg-white border border-gray-300 rounded shadow-sm text-xs">
+      <h4 className="font-semibold text-sm mb-2">Import {fileName}</h4>
+
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        <label className="flex items-center space-x-1">
+          <span>Sheet</span>
+          <select
+            value={sheet?.name}
+            onChange={(e) => update({ sheetName: e.target.value })}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {sheets.map((candidate) => (
+              <option key={candidate.name} value={candidate.name}>
+                {candidate.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-1">
+          <span className="px-1 bg-blue-100 rounded">Truck column</span>
+          <select
+            value={options.truckColumn}
+            onChange={(e) => update({ truckColumn: Number(e.target.value) })}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {columnIndexes.map((index) => (
+              <option key={index} value={index}>
+                {columnLabel(index)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-1">
+          <span className="px-1 bg-amber-100 rounded">Trailer column</span>
+          <select
+            value={options.trailerColumn}
+            onChange={(e) => update({ trailerColumn: Number(e.target.value) })}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {columnIndexes.map((index) => (
+              <option key={index} value={index}>
+                {columnLabel(index)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-1">
+          <input
+            type="checkbox"
+            checked={options.hasHeaderRow}
+            onChange={(e) => update({ hasHeaderRow: e.target.checked })}
+          />
+          <span>First row is a header</span>
+        </label>
+        <label className="flex items-center space-x-1">
+          <span>Pad truck numbers to</span>
+          <input
+            type="number"
+            min={0}
+            value={options.truckPadLength}
+            onChange={(e) => update({ truckPadLength: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-12 border border-gray-300 rounded px-1 py-0.5 text-center"
+          />
+          <span>digits</span>
+        </label>
+      </div>
+
+      {sheet && sheet.rows.length > 0 ? (
+        <div className="overflow-x-auto mb-2">
+          <table className="text-xs border border-gray-200">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="px-1"></th>
+                {columnIndexes.map((index) => (
+                  <th key={index} className={`px-1 ${columnClass(index)}`}>
+                    {columnLabel(index)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.rows.map((row, rowIndex) => (
+                <tr
+                  key={rowIndex}
+                  className={rowIndex === 0 && options.hasHeaderRow ? "font-semibold text-gray-500" : ""}
+                >
+                  <td className="px-1 text-gray-400">{rowIndex + 1}</td>
+                  {columnIndexes.map((index) => (
+                    <td key={index} className={`px-1 font-mono ${columnClass(index)}`}>
+                      {row[index] || ""}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-gray-500 mb-2">This sheet is empty</p>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          onClick={handleConfirm}
+          disabled={options.truckColumn === options.trailerColumn}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm disabled:cursor-not-allowed"
+        >
+          Preview Import
+        </button>
+        <button onClick={onCancel} className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm">
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default memo(SpreadsheetColumnPicker)
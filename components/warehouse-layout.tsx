@@ -1,8 +1,29 @@
 "use client"
 
+import type React from "react"
 import { useState, useCallback, useMemo, memo, useRef, useEffect } from "react"
 import type { RampStatus } from "./warehouse-visualization"
+import {
+  computeRampPositions,
+  computeYardSlots,
+  getSlotSpacing,
+  type RampPosition,
+  type WarehouseLayoutDefinition,
+  type YardSlot,
+} from "@/lib/layout-definition"
 import { useLookup } from "@/contexts/lookup-context"
+import { useSettings } from "@/contexts/settings-context"
+import { describeDefect } from "@/lib/ramp-defects"
+import { findActiveReservation, type Reservation } from "@/lib/reservations"
+import type { YardEntry } from "@/contexts/yard-context"
+import {
+  findTypoCorrection,
+  normalizeLookupValue,
+  type LookupCandidate,
+  type LookupMatchType,
+} from "@/utils/lookup-matching"
+import { describeRampConflict, findRampConflicts, type RampConflict, type RampConflictAction } from "@/lib/ramp-conflicts"
+import { findRampLookupMismatches, isMismatchCurrent, type RampLookupMismatch } from "@/lib/ramp-lookup-mismatches"
 import RampInputField from "./ramp-input-field"
 
 // Create a default status object to use as fallback
@@ -15,31 +36,41 @@ const createDefaultStatus = (): RampStatus => ({
   trailerValue: "",
   hasTruck: false,
   isExiting: false,
+  occupiedSince: null,
+  defect: null,
 })
 
+// How often overdue ramps are re-evaluated
+const OVERDUE_CHECK_INTERVAL = 15000
+
+// Format a dwell duration as h:mm:ss (or m:ss under an hour)
+const formatDwellTime = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const mmss = `${minutes.toString().padStart(hours > 0 ? 2 : 1, "0")}:${seconds.toString().padStart(2, "0")}`
+  return hours > 0 ? `${hours}:${mmss}` : mmss
+}
+
 interface WarehouseLayoutProps {
   rampStatus: Record<number, RampStatus>
   onRampClick: (rampNumber: number) => void
   onInputChange: (rampNumber: number, value: string, inputType: "truck" | "trailer") => void
+  onRampContextMenu?: (rampNumber: number) => void
   orientation: "portrait" | "landscape"
-}
-
-// Warehouse configuration with EXACTLY equal input sizes
-const config = {
-  buildingX: 250,
-  buildingY: 50,
-  buildingWidth: 1400,
-  buildingHeight: 1100,
-  bottomSectionHeight: 150,
-  leftRampCount: 17, // 60-44
-  rightRampCount: 16, // 20-35
-  bottomRampCount: 8, // 36-43
-  // EXACTLY the same width for both truck and trailer inputs
-  inputWidth: 100, // Single width value for ALL inputs
-  truckOffset: 100,
-  svgWidth: 1900,
-  svgHeight: 1300,
-  parkingZoneWidth: 180,
+  layout: WarehouseLayoutDefinition
+  reservations?: Reservation[]
+  yardQueue?: YardEntry[]
+  onYardEntryPointerDown?: (entry: YardEntry, e: React.PointerEvent) => void
+  // Pressing a docked truck starts dragging it to another ramp
+  onTruckPointerDown?: (rampNumber: number, e: React.PointerEvent) => void
+  // Ramp currently under a dragged truck
+  dropTargetRamp?: number | null
+  // Best ramp from the ramp suggestions
+  suggestedRamp?: number | null
+  // Settle a truck or trailer that is entered on this ramp and another one
+  onResolveConflict?: (rampNumber: number, otherRamp: number, action: RampConflictAction) => void
 }
 
 // Memoized truck component (top-down articulated semi-truck)
@@ -51,7 +82,15 @@ const Truck = memo(
     side,
     flip, // kept for backward-compat with the existing call site (not used)
     animationClass,
-  }: { x: number; y: number; side: string; flip: boolean; animationClass: string }) => {
+    onPointerDown,
+  }: {
+    x: number
+    y: number
+    side: string
+    flip: boolean
+    animationClass: string
+    onPointerDown?: (e: React.PointerEvent) => void
+  }) => {
     // Base drawing: rear bumper (dock contact) is at (0,0); trailer extends towards negative X.
     // Orientation per side so we don't rely on mirroring (mirroring tends to look wrong for detailed trucks).
     const rotation = side === "bottom" ? 270 : side === "right" ? 180 : 0
@@ -59,7 +98,13 @@ const Truck = memo(
     return (
       <g
         className={`truck-motion ${animationClass}`}
-        style={{ transformBox: "fill-box", transformOrigin: "center" }}
+        style={{
+          transformBox: "fill-box",
+          transformOrigin: "center",
+          cursor: onPointerDown ? "grab" : undefined,
+          touchAction: onPointerDown ? "none" : undefined,
+        }}
+        onPointerDown={onPointerDown}
       >
         <g transform={`translate(${x}, ${y}) rotate(${rotation})`}>
           {/* Shadow */}
@@ -188,6 +233,299 @@ const Truck = memo(
 
 Truck.displayName = "Truck"
 
+// Live dwell timer shown over a docked truck - ticks on its own so the layout does not re-render every second
+const DwellTimer = memo(
+  ({ x, y, occupiedSince, isOverdue }: { x: number; y: number; occupiedSince: string; isOverdue: boolean }) => {
+    const [now, setNow] = useState(() => Date.now())
+
+    useEffect(() => {
+      const interval = setInterval(() => setNow(Date.now()), 1000)
+      return () => clearInterval(interval)
+    }, [])
+
+    return (
+      <g className={`dwell-timer ${isOverdue ? "overdue" : ""}`} transform={`translate(${x}, ${y})`}>
+        <rect className="dwell-timer-bg" x="-42" y="-14" width="84" height="28" rx="14" />
+        <text className="dwell-timer-text" x="0" y="1" textAnchor="middle" dominantBaseline="middle">
+          {formatDwellTime(now - new Date(occupiedSince).getTime())}
+        </text>
+      </g>
+    )
+  },
+)
+
+DwellTimer.displayName = "DwellTimer"
+
+type RampWarningKind = "conflict" | "mismatch"
+
+// Warning badge on a ramp: its truck or trailer is also on another ramp, or its pair disagrees with the lookup data
+const WarningBadge = memo(
+  ({
+    x,
+    y,
+    kind,
+    title,
+    onClick,
+  }: {
+    x: number
+    y: number
+    kind: RampWarningKind
+    title: string
+    onClick: () => void
+  }) => (
+    <g
+      className={`warning-badge ${kind}`}
+      transform={`translate(${x}, ${y})`}
+      onClick={(e) => {
+        e.stopPropagation()
+        onClick()
+      }}
+    >
+      <title>{title}</title>
+      <circle className="warning-badge-bg" r="12" />
+      <text className="warning-badge-text" x="0" y="1" textAnchor="middle" dominantBaseline="middle">
+        {kind === "conflict" ? "!" : "≠"}
+      </text>
+    </g>
+  ),
+)
+
+WarningBadge.displayName = "WarningBadge"
+
+// What to do about each duplicate: take the truck over from the other ramp, or free the other ramp
+const ConflictPopover = memo(
+  ({
+    x,
+    y,
+    rampNum,
+    conflicts,
+    onResolve,
+    onClose,
+  }: {
+    x: number
+    y: number
+    rampNum: number
+    conflicts: RampConflict[]
+    onResolve: (rampNumber: number, otherRamp: number, action: RampConflictAction) => void
+    onClose: () => void
+  }) => {
+    const rows = conflicts.flatMap((conflict) => conflict.otherRamps.map((otherRamp) => ({ ...conflict, otherRamp })))
+    const rowHeight = 56
+    return (
+      <foreignObject x={x} y={y} width={260} height={rows.length * rowHeight + 36}>
+        <div className="bg-white border border-red-400 rounded shadow text-sm p-1">
+          <div className="flex justify-between items-center px-1 mb-1">
+            <span className="font-semibold text-red-700">Ramp {rampNum} conflict</span>
+            <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700 px-1">
+              ✕
+            </button>
+          </div>
+          {rows.map((row) => (
+            <div key={`${row.field}-${row.otherRamp}`} className="px-1 pb-1" style={{ height: rowHeight - 4 }}>
+              <div>
+                {row.field === "truck" ? "Truck" : "Trailer"} <span className="font-mono">{row.value}</span> also on
+                ramp {row.otherRamp}
+              </div>
+              <div className="flex space-x-1 mt-0.5">
+                <button
+                  type="button"
+                  onClick={() => onResolve(rampNum, row.otherRamp, "move-here")}
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-0.5 rounded text-xs"
+                >
+                  Move here
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onResolve(rampNum, row.otherRamp, "release-other")}
+                  className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-0.5 rounded text-xs"
+                >
+                  Release ramp {row.otherRamp}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </foreignObject>
+    )
+  },
+)
+
+ConflictPopover.displayName = "ConflictPopover"
+
+// Old vs new pair for a ramp the lookup data no longer agrees with
+const MismatchPopover = memo(
+  ({
+    x,
+    y,
+    mismatch,
+    onUpdate,
+    onKeep,
+    onClose,
+  }: {
+    x: number
+    y: number
+    mismatch: RampLookupMismatch
+    onUpdate: (mismatch: RampLookupMismatch) => void
+    onKeep: (rampNumber: number) => void
+    onClose: () => void
+  }) => (
+    <foreignObject x={x} y={y} width={260} height={128}>
+      <div className="bg-white border border-amber-400 rounded shadow text-sm p-1">
+        <div className="flex justify-between items-center px-1 mb-1">
+          <span className="font-semibold text-amber-700">Ramp {mismatch.rampNumber} lookup changed</span>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700 px-1">
+            ✕
+          </button>
+        </div>
+        <table className="w-full px-1 mb-1">
+          <tbody>
+            <tr>
+              <td className="px-1 text-gray-500">Ramp</td>
+              <td className="px-1 font-mono">{mismatch.truck}</td>
+              <td className="px-1 font-mono">{mismatch.trailer}</td>
+            </tr>
+            <tr>
+              <td className="px-1 text-gray-500">Lookup</td>
+              <td className={`px-1 font-mono ${mismatch.lookupTruck !== mismatch.truck ? "text-amber-700" : ""}`}>
+                {mismatch.lookupTruck}
+              </td>
+              <td className={`px-1 font-mono ${mismatch.lookupTrailer !== mismatch.trailer ? "text-amber-700" : ""}`}>
+                {mismatch.lookupTrailer}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        <div className="flex space-x-1 px-1">
+          <button
+            type="button"
+            onClick={() => onUpdate(mismatch)}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-0.5 rounded text-xs"
+          >
+            Update ramp
+          </button>
+          <button
+            type="button"
+            onClick={() => onKeep(mismatch.rampNumber)}
+            className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-0.5 rounded text-xs"
+          >
+            Keep ramp values
+          </button>
+        </div>
+      </div>
+    </foreignObject>
+  ),
+)
+
+MismatchPopover.displayName = "MismatchPopover"
+
+// Where a ramp's popover opens: beside the ramp, inside the building
+const getPopoverPosition = (position: RampPosition, width: number, height: number) => ({
+  x: position.side === "right" ? position.x - width : position.side === "left" ? position.x : position.x - width / 2,
+  y: position.side === "bottom" ? position.y - 25 - height : position.y + 25,
+})
+
+const matchTypeLabels: Record<LookupMatchType, string> = {
+  exact: "exact",
+  normalized: "similar",
+  fuzzy: "close",
+}
+
+// Lookup entries matching what is typed into a ramp input; picking one (tap, or arrows and Enter) fills both fields
+const LookupSuggestions = memo(
+  ({
+    x,
+    y,
+    width,
+    candidates,
+    activeIndex,
+    onSelect,
+    onDismiss,
+  }: {
+    x: number
+    y: number
+    width: number
+    candidates: LookupCandidate[]
+    activeIndex: number
+    onSelect: (candidate: LookupCandidate) => void
+    onDismiss: () => void
+  }) => {
+    const rowHeight = 28
+    return (
+      <foreignObject x={x} y={y} width={width} height={(candidates.length + 1) * rowHeight + 4}>
+        <div role="listbox" className="bg-white border border-gray-400 rounded shadow text-sm">
+          {candidates.map((candidate, index) => (
+            <button
+              key={`${candidate.truck}-${candidate.trailer}`}
+              type="button"
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep the focus in the input until the choice is made
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(candidate)}
+              className={`flex w-full justify-between items-center px-2 text-left ${
+                index === activeIndex ? "bg-blue-100" : "hover:bg-blue-50"
+              }`}
+              style={{ height: rowHeight }}
+            >
+              <span className="font-mono">
+                {candidate.truck} ↔ {candidate.trailer}
+              </span>
+              <span className="text-xs text-gray-500">{matchTypeLabels[candidate.matchType]}</span>
+            </button>
+          ))}
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onDismiss}
+            className="w-full px-2 text-xs text-gray-500 hover:bg-gray-50 text-left"
+            style={{ height: rowHeight }}
+          >
+            Keep what I typed (Esc)
+          </button>
+        </div>
+      </foreignObject>
+    )
+  },
+)
+
+LookupSuggestions.displayName = "LookupSuggestions"
+
+// Memoized card for a truck waiting in the yard
+const YardCard = memo(
+  ({
+    entry,
+    slot,
+    waitingMinutes,
+    onPointerDown,
+  }: {
+    entry: YardEntry
+    slot: YardSlot
+    waitingMinutes: number
+    onPointerDown: (entry: YardEntry, e: React.PointerEvent) => void
+  }) => (
+    <g
+      className="yard-card"
+      transform={`translate(${slot.x}, ${slot.y})`}
+      onPointerDown={(e) => onPointerDown(entry, e)}
+      style={{ touchAction: "none" }}
+    >
+      <title>{`Arrived ${new Date(entry.arrivedAt).toLocaleTimeString()} - drag onto a free ramp`}</title>
+      <rect className="yard-card-bg" width={slot.width} height={slot.height} rx="4" />
+      <text className="yard-card-text" x="6" y="16">
+        {entry.truck || "-"}
+      </text>
+      <text className="yard-card-subtext" x="6" y="33">
+        {entry.trailer || "-"}
+      </text>
+      <text className="yard-card-subtext" x={slot.width - 6} y="16" textAnchor="end">
+        {waitingMinutes} min
+      </text>
+    </g>
+  ),
+)
+
+YardCard.displayName = "YardCard"
+
 // Memoized ramp component
 const Ramp = memo(
   ({
@@ -196,14 +534,28 @@ const Ramp = memo(
     y,
     rotation,
     status,
+    isOverdue,
+    reservation,
+    isDropTarget,
+    isSuggested,
+    hasConflict,
+    hasLookupMismatch,
     onClick,
+    onContextMenu,
   }: {
     rampNum: number
     x: number
     y: number
     rotation: number
     status: RampStatus
+    isOverdue: boolean
+    reservation: Reservation | null
+    isDropTarget: boolean
+    isSuggested: boolean
+    hasConflict: boolean
+    hasLookupMismatch: boolean
     onClick: () => void
+    onContextMenu: (e: React.MouseEvent) => void
   }) => (
     <>
       {/* Loading dock detail */}
@@ -214,10 +566,22 @@ const Ramp = memo(
 
       {/* Ramp */}
       <g
-        className={`ramp ${status.active ? "active" : ""} ${status.yellow ? "yellow" : ""}`}
+        className={`ramp ${status.active ? "active" : ""} ${status.yellow ? "yellow" : ""} ${isOverdue ? "overdue" : ""} ${reservation ? "reserved" : ""} ${isDropTarget ? "drop-target" : ""} ${isSuggested ? "suggested" : ""} ${hasConflict ? "conflict" : ""} ${hasLookupMismatch ? "lookup-mismatch" : ""}`}
         onClick={onClick}
+        onContextMenu={onContextMenu}
         transform={`translate(${x}, ${y}) rotate(${rotation})`}
       >
+        {status.defect && <title>{`Defect - ${describeDefect(status.defect)}`}</title>}
+        {!status.defect && reservation && (
+          <title>
+            {`Reserved for ${[reservation.truck, reservation.trailer].filter(Boolean).join(" / ")}, ${new Date(
+              reservation.windowStart,
+            ).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}-${new Date(
+              reservation.windowEnd,
+            ).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`}
+          </title>
+        )}
+
         {/* Ramp base */}
         <rect className="ramp-base" x="-25" y="-20" width="50" height="40" rx="3" />
 
@@ -238,8 +602,19 @@ function WarehouseLayout({
   rampStatus = {},
   onRampClick,
   onInputChange,
+  onRampContextMenu,
   orientation = "landscape",
+  layout,
+  reservations = [],
+  yardQueue = [],
+  onYardEntryPointerDown,
+  onTruckPointerDown,
+  dropTargetRamp = null,
+  suggestedRamp = null,
+  onResolveConflict,
 }: WarehouseLayoutProps) {
+  const { building, canvas } = layout
+
   // Track recently filled inputs for highlighting
   const [recentlyFilled, setRecentlyFilled] = useState<{
     rampNum: number
@@ -254,7 +629,79 @@ function WarehouseLayout({
   const [lookupUpdateTrigger, setLookupUpdateTrigger] = useState(0)
 
   // Get lookup functions from context
-  const { lookupTrailerByTruck, lookupTruckByTrailer, dataCount } = useLookup()
+  const { lookupTrailerByTruck, lookupTruckByTrailer, findLookupMatches, dataCount } = useLookup()
+
+  // Ramps whose pair the lookup data disagreed with at its last change, until updated or kept
+  const [lookupMismatches, setLookupMismatches] = useState<Record<number, RampLookupMismatch>>({})
+  const rampStatusRef = useRef(rampStatus)
+
+  // Lookup entries matching what is being typed into a ramp input
+  const [lookupSuggestions, setLookupSuggestions] = useState<{
+    rampNum: number
+    inputType: "truck" | "trailer"
+    candidates: LookupCandidate[]
+    // Highlighted suggestion for keyboard navigation, -1 for none
+    activeIndex: number
+  } | null>(null)
+  const { settings } = useSettings()
+
+  // Coarse clock for overdue detection (the timers themselves tick every second)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), OVERDUE_CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Ramps whose truck has been docked longer than the configured threshold
+  const overdueRamps = useMemo(() => {
+    const thresholdMs = settings.dwellThresholdMinutes * 60000
+    const overdue = new Set<number>()
+    for (const [rampNumberStr, status] of Object.entries(rampStatus)) {
+      if (status?.red && status.occupiedSince && now - new Date(status.occupiedSince).getTime() > thresholdMs) {
+        overdue.add(Number(rampNumberStr))
+      }
+    }
+    return overdue
+  }, [rampStatus, settings.dwellThresholdMinutes, now])
+
+  // Free ramps held for a truck expected now or within the lead time
+  const reservedRamps = useMemo(() => {
+    const reserved: Record<number, Reservation> = {}
+    for (const rampNumberStr of Object.keys(rampStatus)) {
+      const rampNumber = Number(rampNumberStr)
+      const status = rampStatus[rampNumber]
+      if (status?.active || status?.yellow) continue
+
+      const reservation = findActiveReservation(reservations, rampNumber, now, settings.reservationLeadMinutes)
+      if (reservation) reserved[rampNumber] = reservation
+    }
+    return reserved
+  }, [rampStatus, reservations, settings.reservationLeadMinutes, now])
+
+  // Trucks and trailers entered on more than one ramp
+  const rampConflicts = useMemo(() => findRampConflicts(rampStatus), [rampStatus])
+
+  // Ramp warning whose badge was tapped
+  const [openWarning, setOpenWarning] = useState<{ rampNum: number; kind: RampWarningKind } | null>(null)
+
+  const toggleWarning = useCallback((rampNum: number, kind: RampWarningKind) => {
+    setOpenWarning((current) => (current?.rampNum === rampNum && current.kind === kind ? null : { rampNum, kind }))
+  }, [])
+
+  const closeWarning = useCallback(() => {
+    setOpenWarning(null)
+  }, [])
+
+  const handleResolveConflict = useCallback(
+    (rampNumber: number, otherRamp: number, action: RampConflictAction) => {
+      setOpenWarning(null)
+      if (typeof onResolveConflict === "function") {
+        onResolveConflict(rampNumber, otherRamp, action)
+      }
+    },
+    [onResolveConflict],
+  )
 
   // Listen for lookup data changes to force re-evaluation
   useEffect(() => {
@@ -272,122 +719,116 @@ function WarehouseLayout({
     }
   }, [])
 
-  // Calculate positions for ramps around the warehouse - ALL inputs use the same width
-  const rampPositions = useMemo(() => {
-    const positions: Record<
-      number,
-      {
-        x: number
-        y: number
-        truckInputX: number
-        truckInputY: number
-        trailerInputX: number
-        trailerInputY: number
-        side: "bottom" | "left" | "right"
-        inputWidth: number
-      }
-    > = {}
-
-    const sideRampAreaHeight = config.buildingHeight - config.bottomSectionHeight
-    const maxRampCount = Math.max(config.leftRampCount, config.rightRampCount)
-    const sideRampSpacing = sideRampAreaHeight / maxRampCount
-
-    // Left side ramps (60-44) - EXACTLY the same width for both inputs
-    for (let i = 0; i < config.leftRampCount; i++) {
-      const rampNumber = 60 - i
-      const y = config.buildingY + (i + 0.5) * sideRampSpacing
-      positions[rampNumber] = {
-        x: config.buildingX,
-        y: y,
-        // Truck input - using config.inputWidth
-        truckInputX: config.buildingX + 70,
-        truckInputY: y - 20,
-        // Trailer input - using EXACTLY the same config.inputWidth
-        trailerInputX: config.buildingX + 180,
-        trailerInputY: y - 20,
-        side: "left",
-        inputWidth: config.inputWidth, // SAME width for both
+  useEffect(() => {
+    rampStatusRef.current = rampStatus
+  }, [rampStatus])
+
+  // Reconcile the ramps with the lookup data whenever it changes (the lookup functions change with it)
+  useEffect(() => {
+    const mismatches = findRampLookupMismatches(rampStatusRef.current, lookupTrailerByTruck, lookupTruckByTrailer)
+    setLookupMismatches(mismatches)
+
+    const count = Object.keys(mismatches).length
+    if (count > 0) {
+      console.log(`⚠️ ${count} ramp(s) disagree with the lookup data (trigger: ${lookupUpdateTrigger})`)
+    }
+  }, [lookupTrailerByTruck, lookupTruckByTrailer, lookupUpdateTrigger])
+
+  // Flags whose ramp has been edited or released since are dropped
+  const currentMismatches = useMemo(() => {
+    const current: Record<number, RampLookupMismatch> = {}
+    for (const mismatch of Object.values(lookupMismatches)) {
+      if (isMismatchCurrent(mismatch, rampStatus[mismatch.rampNumber])) {
+        current[mismatch.rampNumber] = mismatch
       }
     }
+    return current
+  }, [lookupMismatches, rampStatus])
+
+  const keepRampValues = useCallback((rampNumber: number) => {
+    setOpenWarning(null)
+    setLookupMismatches((prev) => {
+      const next = { ...prev }
+      delete next[rampNumber]
+      return next
+    })
+    console.log(`📌 Kept ramp ${rampNumber} values despite the lookup data`)
+  }, [])
 
-    // Right side ramps (20-35) - EXACTLY the same width for both inputs
-    for (let i = 0; i < config.rightRampCount; i++) {
-      const rampNumber = 20 + i
-      const y = config.buildingY + (i + 0.5) * sideRampSpacing
-      positions[rampNumber] = {
-        x: config.buildingX + config.buildingWidth,
-        y: y,
-        // Truck input - using config.inputWidth
-        truckInputX: config.buildingX + config.buildingWidth - 180,
-        truckInputY: y - 20,
-        // Trailer input - using EXACTLY the same config.inputWidth
-        trailerInputX: config.buildingX + config.buildingWidth - 290,
-        trailerInputY: y - 20,
-        side: "right",
-        inputWidth: config.inputWidth, // SAME width for both
+  // Calculate positions for ramps around the warehouse - ALL inputs use the same width
+  const rampPositions = useMemo(() => computeRampPositions(layout), [layout])
+  const yardSlots = useMemo(() => computeYardSlots(layout), [layout])
+
+  const handleYardEntryPointerDown = useCallback(
+    (entry: YardEntry, e: React.PointerEvent) => {
+      if (typeof onYardEntryPointerDown === "function") {
+        onYardEntryPointerDown(entry, e)
       }
-    }
+    },
+    [onYardEntryPointerDown],
+  )
 
-    // Bottom ramps (36-43) - EXACTLY the same width for both inputs
-    const bottomRampSpacing = config.buildingWidth / config.bottomRampCount
-    for (let i = 0; i < config.bottomRampCount; i++) {
-      const rampNumber = 43 - i
-      const x = config.buildingX + (i + 0.5) * bottomRampSpacing
-
-      // Use a consistent width for bottom inputs too
-      const bottomInputWidth = Math.min(bottomRampSpacing - 30, config.inputWidth)
-
-      positions[rampNumber] = {
-        x: x,
-        y: config.buildingY + config.buildingHeight,
-        // Truck input - using bottomInputWidth
-        truckInputX: x - bottomInputWidth / 2,
-        truckInputY: config.buildingY + config.buildingHeight - 85,
-        // Trailer input - using EXACTLY the same bottomInputWidth
-        trailerInputX: x - bottomInputWidth / 2,
-        trailerInputY: config.buildingY + config.buildingHeight - 135,
-        side: "bottom",
-        inputWidth: bottomInputWidth, // SAME width for both
+  const handleTruckPointerDown = useCallback(
+    (rampNum: number, e: React.PointerEvent) => {
+      if (typeof onTruckPointerDown === "function") {
+        onTruckPointerDown(rampNum, e)
       }
-    }
+    },
+    [onTruckPointerDown],
+  )
 
-    return positions
-  }, [])
+  // Yard cards in arrival order; the last slot says how many more are waiting when the yard overflows
+  const yardCards = useMemo(() => {
+    const overflow = yardQueue.length > yardSlots.length
+    const visibleEntries = overflow ? yardQueue.slice(0, yardSlots.length - 1) : yardQueue
+    const cards = visibleEntries.map((entry, i) => (
+      <YardCard
+        key={entry.id}
+        entry={entry}
+        slot={yardSlots[i]}
+        waitingMinutes={Math.max(0, Math.floor((now - new Date(entry.arrivedAt).getTime()) / 60000))}
+        onPointerDown={handleYardEntryPointerDown}
+      />
+    ))
+
+    if (overflow && yardSlots.length > 0) {
+      const slot = yardSlots[yardSlots.length - 1]
+      cards.push(
+        <g key="yard-overflow" className="yard-card overflow" transform={`translate(${slot.x}, ${slot.y})`}>
+          <rect className="yard-card-bg" width={slot.width} height={slot.height} rx="4" />
+          <text className="yard-card-subtext" x={slot.width / 2} y="25" textAnchor="middle">
+            +{yardQueue.length - visibleEntries.length} more in the yard
+          </text>
+        </g>,
+      )
+    }
+    return cards
+  }, [yardQueue, yardSlots, now, handleYardEntryPointerDown])
 
   // Generate grid lines - memoized for performance
   const gridLines = useMemo(() => {
     const lines = []
-    const sideRampAreaHeight = config.buildingHeight - config.bottomSectionHeight
-    const parkingZoneEndLeft = config.buildingX - config.parkingZoneWidth
-    const parkingZoneEndRight = config.buildingX + config.buildingWidth + config.parkingZoneWidth
-    const parkingZoneEndBottom = config.buildingY + config.buildingHeight + config.parkingZoneWidth
-
-    const maxRampCount = Math.max(config.leftRampCount, config.rightRampCount)
-    const sideRampSpacing = sideRampAreaHeight / maxRampCount
+    const spacing = getSlotSpacing(layout)
+    const parkingZoneEndLeft = building.x - building.parkingZoneWidth
+    const parkingZoneEndRight = building.x + building.width + building.parkingZoneWidth
+    const parkingZoneEndBottom = building.y + building.height + building.parkingZoneWidth
 
     // Left side grid lines (horizontal)
-    for (let i = 0; i <= maxRampCount; i++) {
-      const y = config.buildingY + i * sideRampSpacing
+    for (let i = 0; i <= spacing.maxSideSlots; i++) {
+      const y = building.y + i * spacing.side
       lines.push(
-        <line
-          key={`left-grid-${i}`}
-          className="grid-line"
-          x1={parkingZoneEndLeft}
-          y1={y}
-          x2={config.buildingX}
-          y2={y}
-        />,
+        <line key={`left-grid-${i}`} className="grid-line" x1={parkingZoneEndLeft} y1={y} x2={building.x} y2={y} />,
       )
     }
 
     // Right side grid lines (horizontal)
-    for (let i = 0; i <= config.rightRampCount; i++) {
-      const y = config.buildingY + i * sideRampSpacing
+    for (let i = 0; i <= spacing.rightSlots; i++) {
+      const y = building.y + i * spacing.side
       lines.push(
         <line
           key={`right-grid-${i}`}
           className="grid-line"
-          x1={config.buildingX + config.buildingWidth}
+          x1={building.x + building.width}
           y1={y}
           x2={parkingZoneEndRight}
           y2={y}
@@ -396,15 +837,14 @@ function WarehouseLayout({
     }
 
     // Bottom grid lines (vertical)
-    const bottomRampSpacing = config.buildingWidth / config.bottomRampCount
-    for (let i = 0; i < config.bottomRampCount; i++) {
-      const x = config.buildingX + i * bottomRampSpacing
+    for (let i = 0; i < spacing.bottomSlots; i++) {
+      const x = building.x + i * spacing.bottom
       lines.push(
         <line
           key={`bottom-grid-${i}`}
           className="grid-line"
           x1={x}
-          y1={config.buildingY + config.buildingHeight}
+          y1={building.y + building.height}
           x2={x}
           y2={parkingZoneEndBottom}
         />,
@@ -412,7 +852,7 @@ function WarehouseLayout({
     }
 
     return lines
-  }, [])
+  }, [layout, building])
 
   // Safe click handler
   const handleRampClick = useCallback(
@@ -424,29 +864,66 @@ function WarehouseLayout({
     [onRampClick],
   )
 
-  // Enhanced input handler with real-time lookup functionality - now with immediate lookup trigger
+  // Right-click (long-press on tablets) opens the ramp's details instead of toggling it
+  const handleRampContextMenu = useCallback(
+    (e: React.MouseEvent, rampNum: number) => {
+      if (typeof onRampContextMenu !== "function") return
+      e.preventDefault()
+      onRampContextMenu(rampNum)
+    },
+    [onRampContextMenu],
+  )
+
+  // Highlight a field that was filled from the lookup data for 2 seconds
+  const markRecentlyFilled = useCallback((rampNum: number, inputType: "truck" | "trailer") => {
+    setRecentlyFilled({ rampNum, inputType, timestamp: Date.now() })
+    setTimeout(() => {
+      setRecentlyFilled((current) => {
+        if (current?.rampNum === rampNum && current?.inputType === inputType) {
+          return null
+        }
+        return current
+      })
+    }, 2000)
+  }, [])
+
+  // Typing only updates the field and the suggestion list; the paired field is filled once a value is confirmed
   const handleInputChange = useCallback(
     (rampNum: number, value: string, inputType: "truck" | "trailer") => {
       if (typeof onInputChange !== "function") return
 
+      onInputChange(rampNum, value, inputType)
+
+      const candidates = value.trim() && dataCount > 0 ? findLookupMatches(value, inputType) : []
+      setLookupSuggestions(
+        candidates.length > 0
+          ? { rampNum, inputType, candidates, activeIndex: candidates[0].matchType === "exact" ? 0 : -1 }
+          : null,
+      )
+    },
+    [onInputChange, dataCount, findLookupMatches],
+  )
+
+  // Enter or leaving the field confirms the typed value: fill the paired field from the lookup data
+  const handleInputConfirm = useCallback(
+    (rampNum: number, value: string, inputType: "truck" | "trailer") => {
+      if (typeof onInputChange !== "function") return
+      setLookupSuggestions((current) =>
+        current?.rampNum === rampNum && current.inputType === inputType ? null : current,
+      )
+
       // Initialize the last lookup record for this ramp if it doesn't exist
       if (!lastLookupRef.current[rampNum]) {
         lastLookupRef.current[rampNum] = { truck: "", trailer: "" }
       }
 
-      // First, update the current input field
-      onInputChange(rampNum, value, inputType)
+      const otherInputType = inputType === "truck" ? "trailer" : "truck"
+      const currentStatus = rampStatus[rampNum] || createDefaultStatus()
+      const otherFieldValue = inputType === "truck" ? currentStatus.trailerValue : currentStatus.truckValue
 
-      // If the value is being cleared (deleted), also clear the associated field
+      // If the value was cleared (deleted), also clear the associated field
       if (value.trim() === "") {
-        const otherInputType = inputType === "truck" ? "trailer" : "truck"
-
-        // Check if the other field has a value before clearing
-        const currentStatus = rampStatus[rampNum] || createDefaultStatus()
-        const otherFieldValue = inputType === "truck" ? currentStatus.trailerValue : currentStatus.truckValue
-
         if (otherFieldValue && otherFieldValue.trim() !== "") {
-          // Clear the other field
           onInputChange(rampNum, "", otherInputType)
         }
 
@@ -473,90 +950,135 @@ function WarehouseLayout({
 
       console.log(`🔍 Performing lookup for ${inputType}: "${value}" (trigger: ${lookupUpdateTrigger})`)
 
-      // Perform the lookup based on input type
-      if (inputType === "truck") {
-        // If truck number is entered, look up the trailer
-        const trailer = lookupTrailerByTruck(value)
-
-        if (trailer) {
-          // Only update if we found a match and the trailer field is different
-          const currentStatus = rampStatus[rampNum] || createDefaultStatus()
-
-          if (currentStatus.trailerValue !== trailer) {
-            // Update the trailer field
-            onInputChange(rampNum, trailer, "trailer")
-
-            // Mark this field as recently filled for highlighting
-            setRecentlyFilled({
-              rampNum,
-              inputType: "trailer",
-              timestamp: Date.now(),
-            })
-
-            // Clear the highlight after 2 seconds
-            setTimeout(() => {
-              setRecentlyFilled((current) => {
-                if (current?.rampNum === rampNum && current?.inputType === "trailer") {
-                  return null
-                }
-                return current
-              })
-            }, 2000)
-
-            console.log(`✅ Truck lookup success: ${value} → ${trailer}`)
-          }
-        } else {
-          // If no match found and there's a value in the trailer field, clear it
-          const currentStatus = rampStatus[rampNum] || createDefaultStatus()
-          if (currentStatus.trailerValue) {
-            onInputChange(rampNum, "", "trailer")
-            console.log(`❌ Truck lookup failed: ${value} (cleared trailer)`)
-          }
+      const partner = inputType === "truck" ? lookupTrailerByTruck(value) : lookupTruckByTrailer(value)
+      const candidates = findLookupMatches(value, inputType)
+      if (partner) {
+        // A value typed differently than stored ("80" for "080") takes the stored spelling
+        const canonical = candidates.find((candidate) => candidate[otherInputType] === partner)?.[inputType]
+        if (canonical && canonical !== value) {
+          lastLookupRef.current[rampNum][inputType] = `${canonical}-${lookupUpdateTrigger}`
+          onInputChange(rampNum, canonical, inputType)
         }
-      } else if (inputType === "trailer") {
-        // If trailer number is entered, look up the truck
-        const truck = lookupTruckByTrailer(value)
-
-        if (truck) {
-          // Only update if we found a match and the truck field is different
-          const currentStatus = rampStatus[rampNum] || createDefaultStatus()
-
-          if (currentStatus.truckValue !== truck) {
-            // Update the truck field
-            onInputChange(rampNum, truck, "truck")
-
-            // Mark this field as recently filled for highlighting
-            setRecentlyFilled({
-              rampNum,
-              inputType: "truck",
-              timestamp: Date.now(),
-            })
-
-            // Clear the highlight after 2 seconds
-            setTimeout(() => {
-              setRecentlyFilled((current) => {
-                if (current?.rampNum === rampNum && current?.inputType === "truck") {
-                  return null
-                }
-                return current
-              })
-            }, 2000)
+        // Only update if the paired field is different
+        if (otherFieldValue !== partner) {
+          onInputChange(rampNum, partner, otherInputType)
+          markRecentlyFilled(rampNum, otherInputType)
+          console.log(`✅ ${inputType} lookup success: ${value} → ${partner}`)
+        }
+        return
+      }
 
-            console.log(`✅ Trailer lookup success: ${value} → ${truck}`)
-          }
-        } else {
-          // If no match found and there's a value in the truck field, clear it
-          const currentStatus = rampStatus[rampNum] || createDefaultStatus()
-          if (currentStatus.truckValue) {
-            onInputChange(rampNum, "", "truck")
-            console.log(`❌ Trailer lookup failed: ${value} (cleared truck)`)
-          }
+      // A likely typo of one known value is corrected like a picked suggestion
+      const correction = findTypoCorrection(candidates)
+      if (correction) {
+        lastLookupRef.current[rampNum] = {
+          truck: `${correction.truck}-${lookupUpdateTrigger}`,
+          trailer: `${correction.trailer}-${lookupUpdateTrigger}`,
         }
+        onInputChange(rampNum, correction.truck, "truck")
+        onInputChange(rampNum, correction.trailer, "trailer")
+        markRecentlyFilled(rampNum, otherInputType)
+        console.log(`✅ ${inputType} lookup corrected: ${value} → ${correction[inputType]}`)
+        return
+      }
+      // Several close values: the typed one may well be meant, so nothing is cleared
+      if (candidates.length > 0) return
+
+      // Unknown value: only clear the paired field if the lookup data pairs it with something else
+      const lookupPartner = inputType === "truck" ? lookupTruckByTrailer : lookupTrailerByTruck
+      const otherFieldPartner = otherFieldValue ? lookupPartner(otherFieldValue) : null
+      if (otherFieldPartner && normalizeLookupValue(otherFieldPartner) !== normalizeLookupValue(value)) {
+        onInputChange(rampNum, "", otherInputType)
+        console.log(`❌ ${inputType} lookup failed: ${value} (cleared ${otherInputType} of ${otherFieldPartner})`)
+      }
+    },
+    [
+      onInputChange,
+      rampStatus,
+      dataCount,
+      lookupTrailerByTruck,
+      lookupTruckByTrailer,
+      findLookupMatches,
+      lookupUpdateTrigger,
+      markRecentlyFilled,
+    ],
+  )
+
+  // Fill both fields from the picked lookup entry
+  const handleSuggestionSelect = useCallback(
+    (candidate: LookupCandidate) => {
+      if (!lookupSuggestions || typeof onInputChange !== "function") return
+      const { rampNum, inputType } = lookupSuggestions
+
+      // The picked values are known to match, so they need no new lookup
+      lastLookupRef.current[rampNum] = {
+        truck: `${candidate.truck}-${lookupUpdateTrigger}`,
+        trailer: `${candidate.trailer}-${lookupUpdateTrigger}`,
+      }
+      onInputChange(rampNum, candidate.truck, "truck")
+      onInputChange(rampNum, candidate.trailer, "trailer")
+      markRecentlyFilled(rampNum, inputType === "truck" ? "trailer" : "truck")
+      setLookupSuggestions(null)
+      console.log(`✅ Picked lookup match (${candidate.matchType}): ${candidate.truck} ↔ ${candidate.trailer}`)
+    },
+    [lookupSuggestions, onInputChange, lookupUpdateTrigger, markRecentlyFilled],
+  )
+
+  // Take the pair from the lookup data over onto the flagged ramp
+  const updateRampFromLookup = useCallback(
+    (mismatch: RampLookupMismatch) => {
+      if (typeof onInputChange !== "function") return
+      const { rampNumber, lookupTruck, lookupTrailer } = mismatch
+
+      lastLookupRef.current[rampNumber] = {
+        truck: `${lookupTruck}-${lookupUpdateTrigger}`,
+        trailer: `${lookupTrailer}-${lookupUpdateTrigger}`,
+      }
+      if (lookupTruck !== mismatch.truck) {
+        onInputChange(rampNumber, lookupTruck, "truck")
+        markRecentlyFilled(rampNumber, "truck")
+      }
+      if (lookupTrailer !== mismatch.trailer) {
+        onInputChange(rampNumber, lookupTrailer, "trailer")
+        markRecentlyFilled(rampNumber, "trailer")
+      }
+      setOpenWarning(null)
+      console.log(
+        `✅ Ramp ${rampNumber} updated from lookup: ${mismatch.truck} ↔ ${mismatch.trailer} → ${lookupTruck} ↔ ${lookupTrailer}`,
+      )
+    },
+    [onInputChange, lookupUpdateTrigger, markRecentlyFilled],
+  )
+
+  // Arrow keys move through the suggestions, Enter picks one, Escape closes them.
+  // Returns false when the key is left to the input
+  const handleSuggestionKey = useCallback(
+    (rampNum: number, inputType: "truck" | "trailer", key: string): boolean => {
+      if (lookupSuggestions?.rampNum !== rampNum || lookupSuggestions.inputType !== inputType) return false
+      const { candidates, activeIndex } = lookupSuggestions
+
+      if (key === "ArrowDown" || key === "ArrowUp") {
+        const step = key === "ArrowDown" ? 1 : -1
+        const nextIndex = (activeIndex + step + candidates.length + 1) % (candidates.length + 1)
+        // One step past either end leaves the list without a selection
+        setLookupSuggestions({ ...lookupSuggestions, activeIndex: nextIndex === candidates.length ? -1 : nextIndex })
+        return true
       }
+      if (key === "Enter" && activeIndex >= 0) {
+        handleSuggestionSelect(candidates[activeIndex])
+        return true
+      }
+      if (key === "Escape") {
+        setLookupSuggestions(null)
+        return true
+      }
+      return false
     },
-    [onInputChange, rampStatus, dataCount, lookupTrailerByTruck, lookupTruckByTrailer, lookupUpdateTrigger],
+    [lookupSuggestions, handleSuggestionSelect],
   )
 
+  const dismissSuggestions = useCallback(() => setLookupSuggestions(null), [])
+
   // Function to get truck position and animation classes based on ramp position
   const getTruckPosition = useCallback((rampX: number, rampY: number, side: string, isExiting: boolean) => {
     // Rear bumper (dock contact) sits almost on the ramp face.
@@ -599,7 +1121,7 @@ function WarehouseLayout({
   const inputHeight = orientation === "portrait" ? "50" : "40"
 
   // Adjust central area for wider layout
-  const centralAreaWidth = config.buildingWidth - 700
+  const centralAreaWidth = building.width - 700
 
   // Function to determine if an input should be highlighted
   const isHighlighted = useCallback(
@@ -610,38 +1132,38 @@ function WarehouseLayout({
   )
 
   return (
-    <svg width={config.svgWidth} height={config.svgHeight} viewBox={`0 0 ${config.svgWidth} ${config.svgHeight}`}>
-      <rect x="0" y="0" width={config.svgWidth} height={config.svgHeight} fill="#888888" />
+    <svg width={canvas.width} height={canvas.height} viewBox={`0 0 ${canvas.width} ${canvas.height}`}>
+      <rect x="0" y="0" width={canvas.width} height={canvas.height} fill="#888888" />
 
       {/* Parking areas */}
       <rect
-        x={config.buildingX - config.parkingZoneWidth}
-        y={config.buildingY}
-        width={config.parkingZoneWidth}
-        height={config.buildingHeight}
+        x={building.x - building.parkingZoneWidth}
+        y={building.y}
+        width={building.parkingZoneWidth}
+        height={building.height}
         fill="#aaaaaa"
       />
       <rect
-        x={config.buildingX + config.buildingWidth}
-        y={config.buildingY}
-        width={config.parkingZoneWidth}
-        height={config.buildingHeight}
+        x={building.x + building.width}
+        y={building.y}
+        width={building.parkingZoneWidth}
+        height={building.height}
         fill="#aaaaaa"
       />
       <rect
-        x={config.buildingX}
-        y={config.buildingY + config.buildingHeight}
-        width={config.buildingWidth}
-        height={config.parkingZoneWidth}
+        x={building.x}
+        y={building.y + building.height}
+        width={building.width}
+        height={building.parkingZoneWidth}
         fill="#aaaaaa"
       />
 
       {/* Main warehouse building */}
       <rect
-        x={config.buildingX}
-        y={config.buildingY}
-        width={config.buildingWidth}
-        height={config.buildingHeight}
+        x={building.x}
+        y={building.y}
+        width={building.width}
+        height={building.height}
         fill="#999999"
         stroke="#666666"
         strokeWidth="8"
@@ -649,43 +1171,49 @@ function WarehouseLayout({
 
       {/* Central area */}
       <rect
-        x={config.buildingX + (config.buildingWidth - centralAreaWidth) / 2}
-        y={config.buildingY + 50}
+        x={building.x + (building.width - centralAreaWidth) / 2}
+        y={building.y + 50}
         width={centralAreaWidth}
-        height={config.buildingHeight - 200}
+        height={building.height - 200}
         fill="#777777"
         stroke="#666666"
         strokeWidth="2"
       />
 
       {/* Input areas */}
-      <rect
-        x={config.buildingX + 60}
-        y={config.buildingY + 20}
-        width="320"
-        height={config.buildingHeight - 40}
-        fill="#d9d9d9"
-        stroke="#cccccc"
-        strokeWidth="1"
-      />
-      <rect
-        x={config.buildingX + config.buildingWidth - 380}
-        y={config.buildingY + 20}
-        width="320"
-        height={config.buildingHeight - 40}
-        fill="#d9d9d9"
-        stroke="#cccccc"
-        strokeWidth="1"
-      />
-      <rect
-        x={config.buildingX + 80}
-        y={config.buildingY + config.buildingHeight - 150}
-        width={config.buildingWidth - 160}
-        height="100"
-        fill="#d9d9d9"
-        stroke="#cccccc"
-        strokeWidth="1"
-      />
+      {layout.sides.left && (
+        <rect
+          x={building.x + 60}
+          y={building.y + 20}
+          width="320"
+          height={building.height - 40}
+          fill="#d9d9d9"
+          stroke="#cccccc"
+          strokeWidth="1"
+        />
+      )}
+      {layout.sides.right && (
+        <rect
+          x={building.x + building.width - 380}
+          y={building.y + 20}
+          width="320"
+          height={building.height - 40}
+          fill="#d9d9d9"
+          stroke="#cccccc"
+          strokeWidth="1"
+        />
+      )}
+      {layout.sides.bottom && (
+        <rect
+          x={building.x + 80}
+          y={building.y + building.height - 150}
+          width={building.width - 160}
+          height="100"
+          fill="#d9d9d9"
+          stroke="#cccccc"
+          strokeWidth="1"
+        />
+      )}
 
       {/* Grid lines */}
       {gridLines}
@@ -706,6 +1234,21 @@ function WarehouseLayout({
         // Determine ramp orientation
         const rotation = position.side === "bottom" ? 270 : 0
 
+        // Dwell timer sits over the trailer, clear of the ramp and the inputs
+        const isOverdue = overdueRamps.has(rampNum)
+        const showDwellTimer = status.red && !status.isExiting && Boolean(status.occupiedSince)
+        const timerX = position.side === "left" ? position.x - 120 : position.side === "right" ? position.x + 120 : position.x
+        const timerY = position.side === "bottom" ? position.y + 110 : position.y
+
+        // Warning badges sit on the ramp's outer corners: conflicts on one, lookup mismatches on the other
+        const conflicts = rampConflicts[rampNum]
+        const mismatch = currentMismatches[rampNum]
+        const badgeX =
+          position.side === "left" ? position.x - 25 : position.side === "right" ? position.x + 25 : position.x + 20
+        const badgeY = position.side === "bottom" ? position.y + 25 : position.y - 20
+        const mismatchBadgeX = position.side === "bottom" ? position.x - 20 : badgeX
+        const mismatchBadgeY = position.side === "bottom" ? badgeY : position.y + 20
+
         return (
           <g key={`ramp-group-${rampNum}`} className="ramp-group" data-ramp={rampNum}>
             {/* Ramp with loading dock */}
@@ -715,7 +1258,14 @@ function WarehouseLayout({
               y={position.y}
               rotation={rotation}
               status={status}
+              isOverdue={isOverdue}
+              reservation={reservedRamps[rampNum] || null}
+              isDropTarget={dropTargetRamp === rampNum}
+              isSuggested={suggestedRamp === rampNum}
+              hasConflict={Boolean(conflicts)}
+              hasLookupMismatch={Boolean(mismatch)}
               onClick={() => handleRampClick(rampNum)}
+              onContextMenu={(e) => handleRampContextMenu(e, rampNum)}
             />
 
             {/* Truck if ramp is active or exiting */}
@@ -726,6 +1276,36 @@ function WarehouseLayout({
                 side={position.side}
                 flip={truckPosition.flip}
                 animationClass={truckPosition.animationClass}
+                onPointerDown={
+                  status.active && !status.isExiting ? (e) => handleTruckPointerDown(rampNum, e) : undefined
+                }
+              />
+            )}
+
+            {/* Live dwell timer while the truck is docked */}
+            {showDwellTimer && (
+              <DwellTimer x={timerX} y={timerY} occupiedSince={status.occupiedSince as string} isOverdue={isOverdue} />
+            )}
+
+            {/* Same truck or trailer on another ramp */}
+            {conflicts && (
+              <WarningBadge
+                x={badgeX}
+                y={badgeY}
+                kind="conflict"
+                title={conflicts.map(describeRampConflict).join("\n")}
+                onClick={() => toggleWarning(rampNum, "conflict")}
+              />
+            )}
+
+            {/* Pair no longer matches the lookup data */}
+            {mismatch && (
+              <WarningBadge
+                x={mismatchBadgeX}
+                y={mismatchBadgeY}
+                kind="mismatch"
+                title={`Lookup now pairs ${mismatch.lookupTruck} ↔ ${mismatch.lookupTrailer}`}
+                onClick={() => toggleWarning(rampNum, "mismatch")}
               />
             )}
 
@@ -740,6 +1320,9 @@ function WarehouseLayout({
                 <RampInputField
                   value={status?.truckValue || ""}
                   onChange={(value) => handleInputChange(rampNum, value, "truck")}
+                  onConfirm={(value) => handleInputConfirm(rampNum, value, "truck")}
+                  onSuggestionKey={(key) => handleSuggestionKey(rampNum, "truck", key)}
+                  hasSuggestions={lookupSuggestions?.rampNum === rampNum && lookupSuggestions.inputType === "truck"}
                   placeholder="truck"
                   inputType="truck"
                   rampNum={rampNum}
@@ -759,6 +1342,9 @@ function WarehouseLayout({
                 <RampInputField
                   value={status?.trailerValue || ""}
                   onChange={(value) => handleInputChange(rampNum, value, "trailer")}
+                  onConfirm={(value) => handleInputConfirm(rampNum, value, "trailer")}
+                  onSuggestionKey={(key) => handleSuggestionKey(rampNum, "trailer", key)}
+                  hasSuggestions={lookupSuggestions?.rampNum === rampNum && lookupSuggestions.inputType === "trailer"}
                   placeholder="trailer"
                   inputType="trailer"
                   rampNum={rampNum}
@@ -769,6 +1355,52 @@ function WarehouseLayout({
           </g>
         )
       })}
+
+      {/* Close lookup matches under the input that was typed into */}
+      {lookupSuggestions && rampPositions[lookupSuggestions.rampNum] && (
+        <LookupSuggestions
+          x={
+            lookupSuggestions.inputType === "truck"
+              ? rampPositions[lookupSuggestions.rampNum].truckInputX
+              : rampPositions[lookupSuggestions.rampNum].trailerInputX
+          }
+          y={
+            (lookupSuggestions.inputType === "truck"
+              ? rampPositions[lookupSuggestions.rampNum].truckInputY
+              : rampPositions[lookupSuggestions.rampNum].trailerInputY) + Number(inputHeight)
+          }
+          width={Math.max(rampPositions[lookupSuggestions.rampNum].inputWidth, 220)}
+          candidates={lookupSuggestions.candidates}
+          activeIndex={lookupSuggestions.activeIndex}
+          onSelect={handleSuggestionSelect}
+          onDismiss={dismissSuggestions}
+        />
+      )}
+
+      {/* Ways to settle the warning whose badge was tapped */}
+      {openWarning?.kind === "conflict" && rampConflicts[openWarning.rampNum] && rampPositions[openWarning.rampNum] && (
+        <ConflictPopover
+          {...getPopoverPosition(rampPositions[openWarning.rampNum], 260, 148)}
+          rampNum={openWarning.rampNum}
+          conflicts={rampConflicts[openWarning.rampNum]}
+          onResolve={handleResolveConflict}
+          onClose={closeWarning}
+        />
+      )}
+      {openWarning?.kind === "mismatch" &&
+        currentMismatches[openWarning.rampNum] &&
+        rampPositions[openWarning.rampNum] && (
+          <MismatchPopover
+            {...getPopoverPosition(rampPositions[openWarning.rampNum], 260, 128)}
+            mismatch={currentMismatches[openWarning.rampNum]}
+            onUpdate={updateRampFromLookup}
+            onKeep={keepRampValues}
+            onClose={closeWarning}
+          />
+        )}
+
+      {/* Trucks waiting in the yard */}
+      {yardCards}
     </svg>
   )
 }
@@ -1,21 +1,54 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback, memo } from "react"
+import type React from "react"
+import { useState, useEffect, useRef, useCallback, useMemo, memo } from "react"
 import WarehouseLayout from "./warehouse-layout"
 import Legend from "./legend"
 import HtmlUploader from "./html-uploader"
+import RampHistoryPanel from "./ramp-history-panel"
+import RampDetailsPanel from "./ramp-details-panel"
+import ReservationsPanel from "./reservations-panel"
+import YardPanel from "./yard-panel"
+import RampSuggestionPanel from "./ramp-suggestion-panel"
+import SettingsPanel from "./settings-panel"
+import WorkspaceBackupPanel from "./workspace-backup-panel"
+import SiteSelector from "./site-selector"
+import ReleaseConfirmDialog from "./release-confirm-dialog"
+import { Toaster } from "./ui/toaster"
+import { ToastAction } from "./ui/toast"
 import { LookupProvider } from "@/contexts/lookup-context"
+import { LookupSnapshotProvider } from "@/contexts/lookup-snapshot-context"
+import { LookupAuditProvider } from "@/contexts/lookup-audit-context"
 import { SupabaseSyncProvider, useSupabaseSync } from "@/contexts/supabase-sync-context"
+import { RampHistoryProvider, useRampHistory, getRampState } from "@/contexts/ramp-history-context"
+import { SettingsProvider, useSettings } from "@/contexts/settings-context"
+import { LayoutProvider, useLayout } from "@/contexts/layout-context"
+import { SiteProvider, useSite } from "@/contexts/site-context"
+import { ReservationProvider, useReservations } from "@/contexts/reservation-context"
+import { YardProvider, useYard, type YardEntry } from "@/contexts/yard-context"
+import { scopedStorageKey } from "@/lib/sites"
+import { useUndoRedo } from "@/hooks/use-undo-redo"
+import { toast } from "@/hooks/use-toast"
+import { useRampDrag } from "@/hooks/use-ramp-drag"
+import { LEGACY_DEFECT_VALUE, describeDefect, parseDefect, type RampDefect } from "@/lib/ramp-defects"
+import { isReservationActive, matchesReservation } from "@/lib/reservations"
+import type { RampStatusRestoreResult, RestoreMode } from "@/lib/workspace-backup"
+import type { RampConflictAction } from "@/lib/ramp-conflicts"
 
 export interface RampStatus {
   active: boolean
   red: boolean
+  // Mirrors defect !== null (kept for the ramp_status column and CSS)
   yellow: boolean
   inputValue: string
   truckValue: string
   trailerValue: string
   hasTruck: boolean
   isExiting?: boolean
+  // ISO timestamp of when the ramp turned red (truck docked)
+  occupiedSince?: string | null
+  // A defective ramp can still hold its last truck
+  defect?: RampDefect | null
 }
 
 // Create a default status object to use as fallback
@@ -28,18 +61,98 @@ const createDefaultStatus = (): RampStatus => ({
   trailerValue: "",
   hasTruck: false,
   isExiting: false,
+  occupiedSince: null,
+  defect: null,
 })
 
+// Fill in missing fields and convert ramps marked with the old "defect" text into a real defect
+const normalizeRampStatus = (status: Partial<RampStatus>): RampStatus => {
+  const normalized = { ...createDefaultStatus(), ...status }
+  const isLegacyDefectValue = (value: string) => value.trim().toLowerCase() === LEGACY_DEFECT_VALUE
+
+  if (isLegacyDefectValue(normalized.truckValue) || isLegacyDefectValue(normalized.trailerValue)) {
+    normalized.truckValue = isLegacyDefectValue(normalized.truckValue) ? "" : normalized.truckValue
+    normalized.trailerValue = isLegacyDefectValue(normalized.trailerValue) ? "" : normalized.trailerValue
+    normalized.inputValue = `${normalized.truckValue} ${normalized.trailerValue}`.trim()
+    normalized.active = Boolean(normalized.inputValue)
+    normalized.red = normalized.active
+    normalized.hasTruck = normalized.active
+  }
+
+  normalized.defect =
+    parseDefect(normalized.defect) ||
+    (normalized.yellow ? { reason: "other", note: "", reportedBy: "", reportedAt: new Date().toISOString() } : null)
+  normalized.yellow = normalized.defect !== null
+  return normalized
+}
+
+// History note for defects reported or resolved between two states of a ramp
+const describeDefectChange = (from: RampStatus, to: RampStatus): string | undefined => {
+  if (to.defect && to.defect.reportedAt !== from.defect?.reportedAt) return describeDefect(to.defect)
+  if (from.defect && !to.defect) return `Resolved: ${describeDefect(from.defect)}`
+  return undefined
+}
+
+// Keep the dock time while a ramp stays red, start it when it turns red, clear it when it is released
+const getOccupiedSince = (status: RampStatus, red: boolean): string | null =>
+  red ? status.occupiedSince || new Date().toISOString() : null
+
 // Animation duration constants
 const TRUCK_EXIT_ANIMATION_DURATION = 1800  // 1.6 seconds (matches CSS animation)
 
+// Quiet period before a local ramp change is written to the history (covers typing and exit animations)
+const HISTORY_SETTLE_DELAY = 1500
+
+// Wait before loading the shared ramp status again after a failed load
+const REMOTE_LOAD_RETRY_DELAY = 15000
+
+// Truck data cleared from a ramp when its truck leaves
+const EMPTY_RAMP_VALUES = {
+  inputValue: "",
+  truckValue: "",
+  trailerValue: "",
+  occupiedSince: null,
+} satisfies Partial<RampStatus>
+
+type RampSnapshot = Record<number, RampStatus>
+
+interface PendingRampUpdate {
+  update: (status: RampStatus) => RampStatus
+  timer: ReturnType<typeof setTimeout>
+}
+
 function WarehouseVisualizationContent() {
   const isMounted = useRef(false)
   const containerRef = useRef<HTMLDivElement>(null)
   const initialLoadDone = useRef(false)
+  const remoteLoadDone = useRef(false)
+  const remoteLoadInProgress = useRef(false)
+  const remoteLoadFailed = useRef(false)
+  const [remoteLoadAttempt, setRemoteLoadAttempt] = useState(0)
 
-  // Get Supabase sync functions (only for HTML DB)
-  const { syncRampStatus, isInitializing, isSupabaseAvailable } = useSupabaseSync()
+  // Get Supabase sync functions
+  const { syncRampStatus, fetchRampStatus, isInitializing, isSupabaseAvailable, connectionStatus } = useSupabaseSync()
+  const { recordRampEvent } = useRampHistory()
+  const { layout, rampNumbers } = useLayout()
+  const { activeSite } = useSite()
+  const { settings } = useSettings()
+  const { reservations, setReservationStatus } = useReservations()
+  const { yardQueue, removeFromYard } = useYard()
+  const rampNumberSet = useMemo(() => new Set(rampNumbers), [rampNumbers])
+
+  // Ramps whose latest change was made on this device (only those are written to the history here)
+  const localRampChanges = useRef<Set<number>>(new Set())
+  const pendingHistory = useRef<
+    Record<number, { from: RampStatus; timer: ReturnType<typeof setTimeout>; record: () => void }>
+  >({})
+  const previousRampStatus = useRef<Record<number, RampStatus>>({})
+  const rampStatusRef = useRef<Record<number, RampStatus>>({})
+  // Reservations this device already marked arrived, so a re-run before the reservation state updates skips them
+  const arrivedReservations = useRef<Set<string>>(new Set())
+
+  // Delayed animation steps per ramp, kept so undo can cancel them
+  const pendingRampUpdates = useRef<Record<number, PendingRampUpdate[]>>({})
+  const { pushUndo, undo, redo, canUndo, canRedo } = useUndoRedo<RampSnapshot>()
 
   // Initialize with empty state first, then load from localStorage in useEffect
   const [rampStatus, setRampStatus] = useState<Record<number, RampStatus>>({})
@@ -47,6 +160,14 @@ function WarehouseVisualizationContent() {
   const [isReady, setIsReady] = useState(false)
   const [orientation, setOrientation] = useState<"portrait" | "landscape">("landscape")
   const [showUploader, setShowUploader] = useState(true) // Show uploader by default
+  const [historyRamp, setHistoryRamp] = useState<number | null>(null)
+  const [detailsRamp, setDetailsRamp] = useState<number | null>(null)
+  const [showReservations, setShowReservations] = useState(false)
+  const [showYard, setShowYard] = useState(false)
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  const [suggestedRamp, setSuggestedRamp] = useState<number | null>(null)
+  const [showSettings, setShowSettings] = useState(false)
+  const [pendingRelease, setPendingRelease] = useState<number | null>(null)
 
   // Load saved status from localStorage - in useEffect to avoid state updates during render
   useEffect(() => {
@@ -58,50 +179,52 @@ function WarehouseVisualizationContent() {
     if (typeof window !== "undefined") {
       try {
         // Load from LOCAL ONLY storage key
-        const savedStatus = localStorage.getItem("warehouseRampStatus_localOnly")
+        const savedStatus = localStorage.getItem(scopedStorageKey("warehouseRampStatus_localOnly", activeSite.id))
         if (savedStatus) {
           const parsedStatus = JSON.parse(savedStatus)
-          // Validate and ensure all ramp numbers have proper status objects
+          // Validate and ensure all saved ramps have proper status objects
+          // (ramps missing from the active layout are added by the layout effect below)
           const validatedStatus: Record<number, RampStatus> = {}
 
-          // Initialize all valid ramp numbers (20-60)
-          for (let i = 20; i <= 60; i++) {
-            validatedStatus[i] = parsedStatus[i]
-              ? { ...createDefaultStatus(), ...parsedStatus[i] }
-              : createDefaultStatus()
+          for (const [rampKey, status] of Object.entries(parsedStatus)) {
+            const rampNumber = Number(rampKey)
+            if (Number.isInteger(rampNumber) && status) {
+              validatedStatus[rampNumber] = normalizeRampStatus(status as Partial<RampStatus>)
+            }
           }
 
           setRampStatus(validatedStatus)
-          console.log("💾 Loaded ramp status from LOCAL STORAGE ONLY")
+          console.log("💾 Loaded ramp status from LOCAL STORAGE")
         } else {
-          // Initialize with default values for all ramps
-          const status: Record<number, RampStatus> = {}
-          for (let i = 20; i <= 60; i++) {
-            status[i] = createDefaultStatus()
-          }
-          setRampStatus(status)
-          console.log("🆕 Initialized default ramp status")
+          console.log("🆕 No saved ramp status, using defaults")
         }
       } catch (e) {
         console.error("❌ Failed to load ramp status from localStorage", e)
-        // Initialize with default values on error
-        const status: Record<number, RampStatus> = {}
-        for (let i = 20; i <= 60; i++) {
-          status[i] = createDefaultStatus()
-        }
-        setRampStatus(status)
       }
     }
-  }, [])
+  }, [activeSite.id])
+
+  // Make sure every ramp of the active layout has a status object
+  useEffect(() => {
+    setRampStatus((prev) => {
+      const missingRamps = rampNumbers.filter((rampNumber) => !prev[rampNumber])
+      if (missingRamps.length === 0) return prev
 
-  // Save status to localStorage ONLY (no Supabase for ramp status)
+      const status = { ...prev }
+      for (const rampNumber of missingRamps) {
+        status[rampNumber] = createDefaultStatus()
+      }
+      return status
+    })
+  }, [rampNumbers])
+
+  // Save status locally and push changed ramps to Supabase when available
   const saveRampStatus = useCallback(
     (status: Record<number, RampStatus>) => {
       if (typeof window !== "undefined") {
         try {
-          // Save to localStorage using local-only sync function
           syncRampStatus(status).catch((error) => {
-            console.error("❌ Error saving ramp status locally:", error)
+            console.error("❌ Error saving ramp status:", error)
           })
         } catch (e) {
           console.error("❌ Failed to save ramp status", e)
@@ -111,6 +234,144 @@ function WarehouseVisualizationContent() {
     [syncRampStatus],
   )
 
+  // Once Supabase is connected, the shared ramp status takes precedence over the local copy.
+  // Changes are only pushed once it has loaded, so a failed load is retried after a delay and on reconnect
+  useEffect(() => {
+    if (isInitializing || !isSupabaseAvailable || connectionStatus !== "connected") return
+    if (remoteLoadDone.current || remoteLoadInProgress.current) return
+    remoteLoadInProgress.current = true
+
+    fetchRampStatus().then((remoteStatus) => {
+      remoteLoadInProgress.current = false
+      if (!isMounted.current) return
+
+      if (!remoteStatus) {
+        if (!remoteLoadFailed.current) {
+          remoteLoadFailed.current = true
+          toast({
+            title: "Shared ramp status could not be loaded",
+            description: "Ramp changes stay on this device until it loads; retrying",
+            variant: "destructive",
+          })
+        }
+        setTimeout(() => {
+          if (isMounted.current) setRemoteLoadAttempt((prev) => prev + 1)
+        }, REMOTE_LOAD_RETRY_DELAY)
+        return
+      }
+
+      remoteLoadDone.current = true
+      if (remoteLoadFailed.current) {
+        remoteLoadFailed.current = false
+        toast({ title: "Shared ramp status loaded" })
+      }
+
+      setRampStatus((prev) => {
+        const mergedStatus = { ...prev }
+        for (const [rampKey, status] of Object.entries(remoteStatus)) {
+          const rampNumber = Number(rampKey)
+          if (!rampNumberSet.has(rampNumber)) continue
+          mergedStatus[rampNumber] = normalizeRampStatus(status)
+        }
+        saveRampStatus(mergedStatus)
+        console.log("📡 Applied shared ramp status from Supabase")
+        return mergedStatus
+      })
+    })
+  }, [
+    isInitializing,
+    isSupabaseAvailable,
+    connectionStatus,
+    remoteLoadAttempt,
+    fetchRampStatus,
+    saveRampStatus,
+    rampNumberSet,
+  ])
+
+  // Apply ramp changes made on other devices
+  useEffect(() => {
+    const handleRampStatusUpdated = (event: CustomEvent) => {
+      const { rampNumber, status } = event.detail
+      if (!isMounted.current || !rampNumberSet.has(rampNumber)) return
+
+      // The other device records this change in the history
+      localRampChanges.current.delete(rampNumber)
+      if (pendingHistory.current[rampNumber]) {
+        clearTimeout(pendingHistory.current[rampNumber].timer)
+        delete pendingHistory.current[rampNumber]
+      }
+
+      setRampStatus((prev) => {
+        const newStatus = {
+          ...prev,
+          [rampNumber]: normalizeRampStatus(status),
+        }
+        saveRampStatus(newStatus)
+        return newStatus
+      })
+      console.log(`📡 Ramp ${rampNumber} updated from another device`)
+    }
+
+    window.addEventListener("rampStatusUpdated", handleRampStatusUpdated as EventListener)
+
+    return () => {
+      window.removeEventListener("rampStatusUpdated", handleRampStatusUpdated as EventListener)
+    }
+  }, [saveRampStatus, rampNumberSet])
+
+  // Write settled local ramp changes to the history
+  useEffect(() => {
+    rampStatusRef.current = rampStatus
+
+    for (const rampNumber of localRampChanges.current) {
+      const before = previousRampStatus.current[rampNumber]
+      const after = rampStatus[rampNumber]
+      if (!before || !after || before === after) continue
+
+      const pending = pendingHistory.current[rampNumber]
+      if (pending) clearTimeout(pending.timer)
+
+      const from = pending ? pending.from : before
+      const record = () => {
+        delete pendingHistory.current[rampNumber]
+        const current = rampStatusRef.current[rampNumber]
+        if (!current) return
+
+        const previousState = getRampState(from)
+        const nextState = getRampState(current)
+        const valuesChanged = from.truckValue !== current.truckValue || from.trailerValue !== current.trailerValue
+        const detail = describeDefectChange(from, current)
+        if (previousState === nextState && !detail && (nextState === "free" || !valuesChanged)) return
+
+        // When a truck leaves, record who left
+        const source = current.truckValue || current.trailerValue ? current : from
+        recordRampEvent({
+          rampNumber,
+          previousState,
+          nextState,
+          truck: source.truckValue || "",
+          trailer: source.trailerValue || "",
+          detail,
+        })
+      }
+
+      pendingHistory.current[rampNumber] = { from, timer: setTimeout(record, HISTORY_SETTLE_DELAY), record }
+    }
+
+    previousRampStatus.current = rampStatus
+  }, [rampStatus, recordRampEvent])
+
+  useEffect(() => {
+    return () => {
+      for (const pending of Object.values(pendingHistory.current)) {
+        clearTimeout(pending.timer)
+      }
+      for (const updates of Object.values(pendingRampUpdates.current)) {
+        updates.forEach((pending) => clearTimeout(pending.timer))
+      }
+    }
+  }, [])
+
   // Function to update orientation state
   const updateOrientation = useCallback(() => {
     if (window.innerHeight > window.innerWidth) {
@@ -171,17 +432,172 @@ function WarehouseVisualizationContent() {
     }
   }, [])
 
-  // Handle ramp click - toggle between active and inactive with animations
-  const handleRampClick = useCallback(
+  // Apply an animation step to a ramp after a delay
+  const scheduleRampUpdate = useCallback(
+    (rampNumber: number, update: (status: RampStatus) => RampStatus, delay: number) => {
+      const pending: PendingRampUpdate = {
+        update,
+        timer: setTimeout(() => {
+          pendingRampUpdates.current[rampNumber] = (pendingRampUpdates.current[rampNumber] || []).filter(
+            (other) => other !== pending,
+          )
+          if (!isMounted.current) return
+
+          setRampStatus((current) => {
+            const newStatus = {
+              ...current,
+              [rampNumber]: update(current[rampNumber] || createDefaultStatus()),
+            }
+            saveRampStatus(newStatus)
+            return newStatus
+          })
+        }, delay),
+      }
+
+      pendingRampUpdates.current[rampNumber] = [...(pendingRampUpdates.current[rampNumber] || []), pending]
+    },
+    [saveRampStatus],
+  )
+
+  const cancelRampUpdates = useCallback((rampNumber: number) => {
+    for (const pending of pendingRampUpdates.current[rampNumber] || []) {
+      clearTimeout(pending.timer)
+    }
+    delete pendingRampUpdates.current[rampNumber]
+  }, [])
+
+  // Current status of the given ramps as it will be once running animations have finished
+  const captureRampSnapshot = useCallback((rampNumbers: number[]): RampSnapshot => {
+    const snapshot: RampSnapshot = {}
+    for (const rampNumber of rampNumbers) {
+      const status = rampStatusRef.current[rampNumber] || createDefaultStatus()
+      snapshot[rampNumber] = (pendingRampUpdates.current[rampNumber] || []).reduce(
+        (settled, pending) => pending.update(settled),
+        status,
+      )
+    }
+    return snapshot
+  }, [])
+
+  // Put ramps back to a snapshot, letting the truck drive in again if it had already left
+  const restoreRampSnapshot = useCallback(
+    (snapshot: RampSnapshot) => {
+      const rampNumbers = Object.keys(snapshot).map(Number)
+      for (const rampNumber of rampNumbers) {
+        cancelRampUpdates(rampNumber)
+        localRampChanges.current.add(rampNumber)
+      }
+
+      setRampStatus((prev) => {
+        const newStatus = { ...prev }
+        for (const rampNumber of rampNumbers) {
+          const restored = snapshot[rampNumber]
+          const truckArrives = restored.red && !prev[rampNumber]?.hasTruck
+          newStatus[rampNumber] = {
+            ...restored,
+            hasTruck: restored.red && !truckArrives,
+            isExiting: false,
+          }
+          if (truckArrives) {
+            scheduleRampUpdate(rampNumber, (status) => ({ ...status, hasTruck: true }), 50)
+          }
+        }
+        saveRampStatus(newStatus)
+        return newStatus
+      })
+    },
+    [cancelRampUpdates, scheduleRampUpdate, saveRampStatus],
+  )
+
+  const captureForSnapshot = useCallback(
+    (snapshot: RampSnapshot) => captureRampSnapshot(Object.keys(snapshot).map(Number)),
+    [captureRampSnapshot],
+  )
+
+  const handleUndo = useCallback(() => {
+    const entry = undo(captureForSnapshot)
+    if (!entry) return
+
+    restoreRampSnapshot(entry.snapshot)
+    toast({ title: `Undone: ${entry.label}`, description: "Ctrl+Shift+Z to redo" })
+    console.log(`↩️ Undo: ${entry.label}`)
+  }, [undo, captureForSnapshot, restoreRampSnapshot])
+
+  const handleRedo = useCallback(() => {
+    const entry = redo(captureForSnapshot)
+    if (!entry) return
+
+    restoreRampSnapshot(entry.snapshot)
+    toast({ title: `Redone: ${entry.label}` })
+    console.log(`↪️ Redo: ${entry.label}`)
+  }, [redo, captureForSnapshot, restoreRampSnapshot])
+
+  // Remember the ramps' status before a change; typing into the same ramp is merged into one step
+  const recordRampUndo = useCallback(
+    (rampNumbers: number[], label: string, coalesceKey?: string) => {
+      const isNewStep = pushUndo(label, captureRampSnapshot(rampNumbers), coalesceKey)
+
+      // Clicks are easy to mis-tap, so they get a toast with a one-tap undo
+      if (isNewStep && !coalesceKey) {
+        toast({
+          title: label,
+          description: "Ctrl+Z to undo",
+          action: (
+            <ToastAction altText="Undo" onClick={handleUndo}>
+              Undo
+            </ToastAction>
+          ),
+        })
+      }
+    },
+    [pushUndo, captureRampSnapshot, handleUndo],
+  )
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), except in text fields outside the ramps
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return
+
+      const key = e.key.toLowerCase()
+      const isUndo = key === "z" && !e.shiftKey
+      const isRedo = (key === "z" && e.shiftKey) || key === "y"
+      if (!isUndo && !isRedo) return
+
+      const target = e.target as HTMLElement | null
+      const isTextField =
+        target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target?.isContentEditable
+      if (isTextField && !target?.hasAttribute("data-ramp")) return
+
+      e.preventDefault()
+      if (isUndo) {
+        handleUndo()
+      } else {
+        handleRedo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [handleUndo, handleRedo])
+
+  // Toggle a ramp between active and inactive with animations
+  const toggleRamp = useCallback(
     (rampNumber: number) => {
       if (!isMounted.current) return
 
       // Validate ramp number
-      if (rampNumber < 20 || rampNumber > 60) {
+      if (!rampNumberSet.has(rampNumber)) {
         console.warn(`Invalid ramp number: ${rampNumber}`)
         return
       }
 
+      localRampChanges.current.add(rampNumber)
+      const wasActive = rampStatusRef.current[rampNumber]?.active
+      recordRampUndo([rampNumber], wasActive ? `Ramp ${rampNumber} released` : `Ramp ${rampNumber} occupied`)
+
       setRampStatus((prev) => {
         const currentStatus = prev[rampNumber] || createDefaultStatus()
 
@@ -195,29 +611,22 @@ function WarehouseVisualizationContent() {
             },
           }
 
-          setTimeout(() => {
-            if (isMounted.current) {
-              setRampStatus((current) => {
-                const newStatus = {
-                  ...current,
-                  [rampNumber]: {
-                    ...current[rampNumber],
-                    active: false,
-                    red: false,
-                    yellow: false,
-                    hasTruck: false,
-                    isExiting: false,
-                    // Clear all input values when making ramp free (green)
-                    inputValue: "",
-                    truckValue: "",
-                    trailerValue: "",
-                  },
-                }
-                saveRampStatus(newStatus)
-                return newStatus
-              })
-            }
-          }, TRUCK_EXIT_ANIMATION_DURATION)
+          scheduleRampUpdate(
+            rampNumber,
+            (status) => ({
+              ...status,
+              active: false,
+              red: false,
+              hasTruck: false,
+              isExiting: false,
+              occupiedSince: null,
+              // Clear all input values when making ramp free (green)
+              inputValue: "",
+              truckValue: "",
+              trailerValue: "",
+            }),
+            TRUCK_EXIT_ANIMATION_DURATION,
+          )
 
           saveRampStatus(result)
           return result
@@ -230,46 +639,70 @@ function WarehouseVisualizationContent() {
             ...currentStatus,
             active: true,
             red: true,
-            yellow: false,
             hasTruck: false,
             isExiting: false,
+            occupiedSince: getOccupiedSince(currentStatus, true),
           },
         }
 
-        setTimeout(() => {
-          if (isMounted.current) {
-            setRampStatus((current) => {
-              const newStatus = {
-                ...current,
-                [rampNumber]: {
-                  ...current[rampNumber],
-                  hasTruck: true,
-                },
-              }
-              saveRampStatus(newStatus)
-              return newStatus
-            })
-          }
-        }, 50)
+        scheduleRampUpdate(rampNumber, (status) => ({ ...status, hasTruck: true }), 50)
 
         saveRampStatus(result)
         return result
       })
     },
-    [saveRampStatus],
+    [saveRampStatus, scheduleRampUpdate, recordRampUndo, rampNumberSet],
+  )
+
+  // Handle ramp click - releasing a ramp that still holds truck/trailer data can ask for confirmation first
+  const handleRampClick = useCallback(
+    (rampNumber: number) => {
+      const status = rampStatusRef.current[rampNumber]
+      const holdsData = status?.active && !!(status.truckValue?.trim() || status.trailerValue?.trim())
+      const skipConfirmation = sessionStorage.getItem("skipRampReleaseConfirmation") === "true"
+
+      if (holdsData && settings.confirmRampRelease && !skipConfirmation) {
+        setPendingRelease(rampNumber)
+        return
+      }
+
+      toggleRamp(rampNumber)
+    },
+    [toggleRamp, settings.confirmRampRelease],
+  )
+
+  const confirmRelease = useCallback(
+    (dontAskAgain: boolean) => {
+      if (dontAskAgain) {
+        sessionStorage.setItem("skipRampReleaseConfirmation", "true")
+      }
+      if (pendingRelease !== null) {
+        toggleRamp(pendingRelease)
+      }
+      setPendingRelease(null)
+    },
+    [toggleRamp, pendingRelease],
   )
 
+  const cancelRelease = useCallback(() => {
+    setPendingRelease(null)
+  }, [])
+
   // Handle input change with animations and validation
   const handleInputChange = useCallback(
     (rampNumber: number, value: string, inputType: "truck" | "trailer") => {
       if (!isMounted.current) return
 
       // Validate ramp number
-      if (rampNumber < 20 || rampNumber > 60) {
+      if (!rampNumberSet.has(rampNumber)) {
         console.warn(`Invalid ramp number: ${rampNumber}`)
         return
       }
 
+      localRampChanges.current.add(rampNumber)
+      // Keystrokes and the lookup auto-fill they trigger undo as one step
+      recordRampUndo([rampNumber], `Ramp ${rampNumber} edited`, `ramp-${rampNumber}`)
+
       setRampStatus((prev) => {
         const currentStatus = prev[rampNumber] || createDefaultStatus()
 
@@ -282,16 +715,11 @@ function WarehouseVisualizationContent() {
         // Combine values for backward compatibility
         updatedStatus.inputValue = `${updatedStatus.truckValue || ""} ${updatedStatus.trailerValue || ""}`.trim()
 
-        // Check if the input indicates a defect
-        const lowerTruckValue = updatedStatus.truckValue?.trim().toLowerCase() || ""
-        const lowerTrailerValue = updatedStatus.trailerValue?.trim().toLowerCase() || ""
-        const isYellow = lowerTruckValue === "defect" || lowerTrailerValue === "defect"
-        const hasAnyInput =
-          (lowerTruckValue !== "" && lowerTruckValue !== "defect") ||
-          (lowerTrailerValue !== "" && lowerTrailerValue !== "defect")
-        const isActive = hasAnyInput || isYellow
+        // Defects are reported separately, so any input means a truck is docked
+        const hasAnyInput = Boolean(updatedStatus.truckValue?.trim() || updatedStatus.trailerValue?.trim())
+        const isActive = hasAnyInput
 
-        // If both inputs are empty or only contain "defect" that's being removed, make ramp green (free)
+        // If both inputs are empty, the truck leaves (a defective ramp stays yellow)
         if (!isActive) {
           // If we had a truck, start exit animation
           if (currentStatus.hasTruck) {
@@ -303,25 +731,18 @@ function WarehouseVisualizationContent() {
               },
             }
 
-            setTimeout(() => {
-              if (isMounted.current) {
-                setRampStatus((current) => {
-                  const newStatus = {
-                    ...current,
-                    [rampNumber]: {
-                      ...current[rampNumber],
-                      active: false,
-                      red: false,
-                      yellow: false,
-                      hasTruck: false,
-                      isExiting: false,
-                    },
-                  }
-                  saveRampStatus(newStatus)
-                  return newStatus
-                })
-              }
-            }, TRUCK_EXIT_ANIMATION_DURATION)
+            scheduleRampUpdate(
+              rampNumber,
+              (status) => ({
+                ...status,
+                active: false,
+                red: false,
+                hasTruck: false,
+                isExiting: false,
+                occupiedSince: null,
+              }),
+              TRUCK_EXIT_ANIMATION_DURATION,
+            )
 
             saveRampStatus(result)
             return result
@@ -333,9 +754,9 @@ function WarehouseVisualizationContent() {
                 ...updatedStatus,
                 active: false,
                 red: false,
-                yellow: false,
                 hasTruck: false,
                 isExiting: false,
+                occupiedSince: null,
               },
             }
             saveRampStatus(newStatus)
@@ -343,104 +764,21 @@ function WarehouseVisualizationContent() {
           }
         }
 
-        // If we're removing a truck (changing from active to inactive)
-        if (currentStatus.active && !isActive) {
-          const result = {
-            ...prev,
-            [rampNumber]: {
-              ...updatedStatus,
-              isExiting: true,
-            },
-          }
-
-          setTimeout(() => {
-            if (isMounted.current) {
-              setRampStatus((current) => {
-                const newStatus = {
-                  ...current,
-                  [rampNumber]: {
-                    ...current[rampNumber],
-                    active: isActive,
-                    red: hasAnyInput,
-                    yellow: isYellow,
-                    hasTruck: false,
-                    isExiting: false,
-                  },
-                }
-                saveRampStatus(newStatus)
-                return newStatus
-              })
-            }
-          }, TRUCK_EXIT_ANIMATION_DURATION)
-
-          saveRampStatus(result)
-          return result
-        }
-
-        // If we're changing to defect, remove truck with animation
-        if (isYellow && currentStatus.hasTruck && !currentStatus.yellow) {
-          const result = {
-            ...prev,
-            [rampNumber]: {
-              ...updatedStatus,
-              yellow: isYellow,
-              isExiting: true,
-            },
-          }
-
-          setTimeout(() => {
-            if (isMounted.current) {
-              setRampStatus((current) => {
-                const newStatus = {
-                  ...current,
-                  [rampNumber]: {
-                    ...current[rampNumber],
-                    active: isActive,
-                    red: false,
-                    yellow: isYellow,
-                    hasTruck: false,
-                    isExiting: false,
-                  },
-                }
-                saveRampStatus(newStatus)
-                return newStatus
-              })
-            }
-          }, TRUCK_EXIT_ANIMATION_DURATION)
-
-          saveRampStatus(result)
-          return result
-        }
-
         // If we're adding a truck (changing from inactive to active)
-        if (!currentStatus.active && isActive && hasAnyInput) {
+        if (!currentStatus.active && isActive) {
           const result = {
             ...prev,
             [rampNumber]: {
               ...updatedStatus,
               active: isActive,
               red: hasAnyInput,
-              yellow: isYellow,
               hasTruck: false,
               isExiting: false,
+              occupiedSince: getOccupiedSince(currentStatus, hasAnyInput),
             },
           }
 
-          setTimeout(() => {
-            if (isMounted.current) {
-              setRampStatus((current) => {
-                const newStatus = {
-                  ...current,
-                  [rampNumber]: {
-                    ...current[rampNumber],
-                    hasTruck: hasAnyInput,
-                  },
-                }
-                saveRampStatus(newStatus)
-                return newStatus
-              })
-            }
-          }, 50)
+          scheduleRampUpdate(rampNumber, (status) => ({ ...status, hasTruck: hasAnyInput }), 50)
 
           saveRampStatus(result)
           return result
@@ -453,16 +791,264 @@ function WarehouseVisualizationContent() {
             ...updatedStatus,
             active: isActive,
             red: hasAnyInput,
-            yellow: isYellow,
             hasTruck: hasAnyInput,
             isExiting: false,
+            occupiedSince: getOccupiedSince(currentStatus, hasAnyInput),
           },
         }
         saveRampStatus(newStatus)
         return newStatus
       })
     },
-    [saveRampStatus],
+    [saveRampStatus, scheduleRampUpdate, recordRampUndo, rampNumberSet],
+  )
+
+  // A reservation is fulfilled as soon as its truck or trailer is entered at the reserved ramp during its window
+  // (or the lead time before it), the same window in which the ramp shows as reserved
+  useEffect(() => {
+    const now = Date.now()
+    for (const reservation of reservations) {
+      if (arrivedReservations.current.has(reservation.id)) continue
+      if (!localRampChanges.current.has(reservation.rampNumber)) continue
+      if (!isReservationActive(reservation, now, settings.reservationLeadMinutes)) continue
+
+      const status = rampStatus[reservation.rampNumber]
+      if (!status?.active || !matchesReservation(reservation, status.truckValue, status.trailerValue)) continue
+
+      arrivedReservations.current.add(reservation.id)
+      setReservationStatus(reservation.id, "arrived")
+
+      // Fill in what dispatch knew but nobody typed
+      if (!status.truckValue.trim() && reservation.truck) {
+        handleInputChange(reservation.rampNumber, reservation.truck, "truck")
+      }
+      if (!status.trailerValue.trim() && reservation.trailer) {
+        handleInputChange(reservation.rampNumber, reservation.trailer, "trailer")
+      }
+    }
+  }, [rampStatus, reservations, settings.reservationLeadMinutes, setReservationStatus, handleInputChange])
+
+  // Ramps a waiting truck can be sent to
+  const freeRamps = useMemo(
+    () => rampNumbers.filter((rampNumber) => !rampStatus[rampNumber]?.active && !rampStatus[rampNumber]?.yellow),
+    [rampNumbers, rampStatus],
+  )
+
+  // Put back ramps from a workspace backup as one undo step; merging only fills ramps that are free now
+  const restoreBackupRampStatus = useCallback(
+    (
+      backupStatus: Record<number, Partial<RampStatus>>,
+      mode: RestoreMode,
+      layoutRampNumbers: number[],
+    ): RampStatusRestoreResult => {
+      // The layout may have been restored in the same step, so its ramps are passed in
+      const layoutRamps = new Set(layoutRampNumbers)
+      const backupRamps = Object.keys(backupStatus).map(Number)
+      const skippedRamps = backupRamps.filter((rampNumber) => !layoutRamps.has(rampNumber))
+      const rampsToRestore = backupRamps
+        .filter((rampNumber) => layoutRamps.has(rampNumber))
+        .filter((rampNumber) => {
+          const status = rampStatusRef.current[rampNumber]
+          return mode === "overwrite" || (!status?.active && !status?.yellow)
+        })
+      if (rampsToRestore.length === 0) return { restoredCount: 0, skippedRamps }
+
+      recordRampUndo(rampsToRestore, `Restore ${rampsToRestore.length} ramp(s) from backup`)
+      const snapshot: RampSnapshot = {}
+      for (const rampNumber of rampsToRestore) {
+        snapshot[rampNumber] = normalizeRampStatus(backupStatus[rampNumber])
+      }
+      restoreRampSnapshot(snapshot)
+      return { restoredCount: rampsToRestore.length, skippedRamps }
+    },
+    [recordRampUndo, restoreRampSnapshot],
+  )
+
+  // Send a truck to a free ramp; it drives in with the regular arrival animation. Returns false if the ramp is taken
+  const assignTruckToRamp = useCallback(
+    (truck: string, trailer: string, rampNumber: number): boolean => {
+      if (!isMounted.current || !rampNumberSet.has(rampNumber)) return false
+
+      const status = rampStatusRef.current[rampNumber]
+      if (status?.active || status?.yellow) {
+        toast({ title: `Ramp ${rampNumber} is not free`, variant: "destructive" })
+        return false
+      }
+
+      localRampChanges.current.add(rampNumber)
+      recordRampUndo([rampNumber], `${truck || trailer} sent to ramp ${rampNumber}`)
+
+      setRampStatus((prev) => {
+        const currentStatus = prev[rampNumber] || createDefaultStatus()
+        const newStatus = {
+          ...prev,
+          [rampNumber]: {
+            ...currentStatus,
+            truckValue: truck,
+            trailerValue: trailer,
+            inputValue: `${truck} ${trailer}`.trim(),
+            active: true,
+            red: true,
+            hasTruck: false,
+            isExiting: false,
+            occupiedSince: getOccupiedSince(currentStatus, true),
+          },
+        }
+        saveRampStatus(newStatus)
+        return newStatus
+      })
+      scheduleRampUpdate(rampNumber, (status) => ({ ...status, hasTruck: true }), 50)
+
+      console.log(`🚚 ${truck || trailer} sent to ramp ${rampNumber}`)
+      return true
+    },
+    [rampNumberSet, recordRampUndo, saveRampStatus, scheduleRampUpdate],
+  )
+
+  const assignYardEntry = useCallback(
+    (entry: YardEntry, rampNumber: number) => {
+      if (assignTruckToRamp(entry.truck, entry.trailer, rampNumber)) {
+        removeFromYard(entry.id)
+      }
+    },
+    [assignTruckToRamp, removeFromYard],
+  )
+
+  const { drag: yardDrag, startDrag: startYardDrag } = useRampDrag<YardEntry>(assignYardEntry)
+  const yardDropTarget = yardDrag?.overRamp != null && freeRamps.includes(yardDrag.overRamp) ? yardDrag.overRamp : null
+
+  // Move a docked truck to a free ramp in one step: one history entry and one undo step for both ramps.
+  // replaceTarget overwrites an occupied ramp instead, for a truck that was entered on the wrong ramp
+  const moveTruck = useCallback(
+    (fromRamp: number, toRamp: number, { replaceTarget = false }: { replaceTarget?: boolean } = {}) => {
+      if (!isMounted.current || fromRamp === toRamp) return
+      if (!rampNumberSet.has(fromRamp) || !rampNumberSet.has(toRamp)) return
+
+      const [source, target] = [fromRamp, toRamp].map((rampNumber) => captureRampSnapshot([rampNumber])[rampNumber])
+      if (!source.active || source.isExiting) return
+      if (!replaceTarget && (target.active || target.yellow)) {
+        toast({ title: `Ramp ${toRamp} is not free`, variant: "destructive" })
+        return
+      }
+
+      const label = `${source.truckValue || source.trailerValue || "Truck"} moved from ramp ${fromRamp} to ramp ${toRamp}`
+      recordRampUndo([fromRamp, toRamp], label)
+
+      // Settle pending history for both ramps, then keep the move itself out of the per-ramp history
+      for (const rampNumber of [fromRamp, toRamp]) {
+        const pending = pendingHistory.current[rampNumber]
+        if (pending) {
+          clearTimeout(pending.timer)
+          pending.record()
+        }
+        cancelRampUpdates(rampNumber)
+        localRampChanges.current.delete(rampNumber)
+      }
+
+      setRampStatus((prev) => {
+        const currentTarget = prev[toRamp] || createDefaultStatus()
+        const newStatus = {
+          ...prev,
+          [fromRamp]: {
+            ...source,
+            ...EMPTY_RAMP_VALUES,
+            active: true,
+            red: true,
+            hasTruck: true,
+            isExiting: true,
+          },
+          [toRamp]: {
+            ...currentTarget,
+            truckValue: source.truckValue,
+            trailerValue: source.trailerValue,
+            inputValue: source.inputValue,
+            occupiedSince: source.occupiedSince,
+            active: true,
+            red: true,
+            hasTruck: false,
+            isExiting: false,
+          },
+        }
+        saveRampStatus(newStatus)
+        return newStatus
+      })
+
+      // The truck leaves the old ramp first, then drives in at the new one
+      scheduleRampUpdate(
+        fromRamp,
+        (status) => ({ ...status, ...EMPTY_RAMP_VALUES, active: false, red: false, hasTruck: false, isExiting: false }),
+        TRUCK_EXIT_ANIMATION_DURATION,
+      )
+      scheduleRampUpdate(toRamp, (status) => ({ ...status, hasTruck: true }), TRUCK_EXIT_ANIMATION_DURATION)
+
+      recordRampEvent({
+        rampNumber: toRamp,
+        previousState: getRampState(target),
+        nextState: "occupied",
+        truck: source.truckValue || "",
+        trailer: source.trailerValue || "",
+        detail: `Moved from ramp ${fromRamp}`,
+      })
+      console.log(`🔀 ${label}`)
+    },
+    [
+      rampNumberSet,
+      captureRampSnapshot,
+      recordRampUndo,
+      cancelRampUpdates,
+      saveRampStatus,
+      scheduleRampUpdate,
+      recordRampEvent,
+    ],
+  )
+
+  const { drag: truckDrag, startDrag: startTruckDrag } = useRampDrag<number>(moveTruck)
+
+  const truckDropTarget =
+    truckDrag?.overRamp != null && truckDrag.overRamp !== truckDrag.item && freeRamps.includes(truckDrag.overRamp)
+      ? truckDrag.overRamp
+      : null
+
+  const handleTruckPointerDown = useCallback(
+    (rampNumber: number, e: React.PointerEvent) => {
+      startTruckDrag(rampNumber, e)
+    },
+    [startTruckDrag],
+  )
+
+  // Settle a truck or trailer entered on two ramps: take it over from the other ramp, or free the other ramp
+  const resolveRampConflict = useCallback(
+    (rampNumber: number, otherRamp: number, action: RampConflictAction) => {
+      const other = rampStatusRef.current[otherRamp]
+      if (!other || other.isExiting) return
+
+      if (other.active) {
+        if (action === "move-here") {
+          moveTruck(otherRamp, rampNumber, { replaceTarget: true })
+        } else {
+          toggleRamp(otherRamp)
+        }
+        return
+      }
+
+      // The other ramp only has the values typed in, so there is no truck to drive over
+      const snapshot = captureRampSnapshot([rampNumber, otherRamp])
+      if (action === "move-here") {
+        recordRampUndo([rampNumber, otherRamp], `Ramp ${otherRamp} values moved to ramp ${rampNumber}`)
+        snapshot[rampNumber] = {
+          ...snapshot[rampNumber],
+          truckValue: other.truckValue,
+          trailerValue: other.trailerValue,
+          inputValue: other.inputValue,
+        }
+      } else {
+        recordRampUndo([otherRamp], `Ramp ${otherRamp} cleared`)
+        delete snapshot[rampNumber]
+      }
+      snapshot[otherRamp] = { ...snapshot[otherRamp], ...EMPTY_RAMP_VALUES }
+      restoreRampSnapshot(snapshot)
+    },
+    [moveTruck, toggleRamp, captureRampSnapshot, recordRampUndo, restoreRampSnapshot],
   )
 
   // Toggle uploader visibility
@@ -470,20 +1056,98 @@ function WarehouseVisualizationContent() {
     setShowUploader((prev) => !prev)
   }, [])
 
+  // Toggle ramp history panel
+  const toggleHistory = useCallback(() => {
+    setHistoryRamp((prev) => (prev === null ? rampNumbers[0] : null))
+  }, [rampNumbers])
+
+  // Right-click / long-press on a ramp opens its details
+  const handleRampContextMenu = useCallback((rampNumber: number) => {
+    setDetailsRamp(rampNumber)
+  }, [])
+
+  const closeDetails = useCallback(() => {
+    setDetailsRamp(null)
+  }, [])
+
+  const showRampHistory = useCallback((rampNumber: number) => {
+    setHistoryRamp(rampNumber)
+  }, [])
+
+  // Report or resolve a defect; the truck and its data stay at the ramp
+  const setRampDefect = useCallback(
+    (rampNumber: number, defect: RampDefect | null, label: string) => {
+      if (!isMounted.current || !rampNumberSet.has(rampNumber)) return
+
+      localRampChanges.current.add(rampNumber)
+      recordRampUndo([rampNumber], label)
+
+      setRampStatus((prev) => {
+        const newStatus = {
+          ...prev,
+          [rampNumber]: {
+            ...(prev[rampNumber] || createDefaultStatus()),
+            defect,
+            yellow: defect !== null,
+          },
+        }
+        saveRampStatus(newStatus)
+        return newStatus
+      })
+    },
+    [saveRampStatus, recordRampUndo, rampNumberSet],
+  )
+
+  const reportDefect = useCallback(
+    (rampNumber: number, defect: RampDefect) => {
+      setRampDefect(rampNumber, defect, `Ramp ${rampNumber} defect reported`)
+      console.log(`⚠️ Ramp ${rampNumber} defect: ${describeDefect(defect)}`)
+    },
+    [setRampDefect],
+  )
+
+  const resolveDefect = useCallback(
+    (rampNumber: number) => {
+      setRampDefect(rampNumber, null, `Ramp ${rampNumber} defect resolved`)
+      console.log(`✅ Ramp ${rampNumber} defect resolved`)
+    },
+    [setRampDefect],
+  )
+
+  const closeHistory = useCallback(() => {
+    setHistoryRamp(null)
+  }, [])
+
+  const toggleReservations = useCallback(() => {
+    setShowReservations((prev) => !prev)
+  }, [])
+
+  const toggleYard = useCallback(() => {
+    setShowYard((prev) => !prev)
+  }, [])
+
+  const toggleSuggestions = useCallback(() => {
+    setShowSuggestions((prev) => !prev)
+  }, [])
+
+  // Toggle settings panel
+  const toggleSettings = useCallback(() => {
+    setShowSettings((prev) => !prev)
+  }, [])
+
   // Don't render until we're ready
   if (!isReady) {
     return <div className="flex items-center justify-center min-h-screen">Loading...</div>
   }
 
-  // Show loading state while initializing HTML DB sync
+  // Show loading state while initializing sync
   if (isInitializing) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center p-6 bg-white rounded-lg shadow-lg max-w-md">
-          <h2 className="text-xl font-bold mb-4">Initializing HTML Database Sync...</h2>
+          <h2 className="text-xl font-bold mb-4">Initializing Database Sync...</h2>
           <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-sm text-gray-600">Setting up truck-trailer lookup sync...</p>
-          <p className="text-xs text-gray-500 mt-2">Ramp controls are local only</p>
+          <p className="text-sm text-gray-600">Setting up truck-trailer lookup and ramp status sync...</p>
         </div>
       </div>
     )
@@ -494,16 +1158,111 @@ function WarehouseVisualizationContent() {
       {/* HTML Upload Button */}
       <div className="flex justify-between mb-2">
         <div className="flex items-center space-x-2">
+          <SiteSelector />
           <span className="text-xs text-gray-600">
             {isSupabaseAvailable ? "🟢 HTML DB Sync Active" : "🔴 HTML DB Local Only"}
           </span>
-          <span className="text-xs text-gray-500">• Ramp Status: Local Only</span>
+          <span className="text-xs text-gray-500">
+            • Ramp Status: {isSupabaseAvailable ? "Shared" : "Local Only"}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 text-white px-3 py-1 rounded text-sm"
+            onClick={handleUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+          >
+            ↶ Undo
+          </button>
+          <button
+            className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 text-white px-3 py-1 rounded text-sm"
+            onClick={handleRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            ↷ Redo
+          </button>
+          <button className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm" onClick={toggleSettings}>
+            {showSettings ? "Hide Settings" : "Settings"}
+          </button>
+          <button
+            className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm"
+            onClick={toggleSuggestions}
+          >
+            {showSuggestions ? "Hide Suggest Ramp" : "Suggest Ramp"}
+          </button>
+          <button className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm" onClick={toggleYard}>
+            {showYard ? "Hide Yard" : `Yard (${yardQueue.length})`}
+          </button>
+          <button
+            className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm"
+            onClick={toggleReservations}
+          >
+            {showReservations ? "Hide Reservations" : "Reservations"}
+          </button>
+          <button className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm" onClick={toggleHistory}>
+            {historyRamp === null ? "Show Ramp History" : "Hide Ramp History"}
+          </button>
+          <button className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm" onClick={toggleUploader}>
+            {showUploader ? "Hide Database Tools" : "Show Database Tools"}
+          </button>
         </div>
-        <button className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm" onClick={toggleUploader}>
-          {showUploader ? "Hide Database Tools" : "Show Database Tools"}
-        </button>
       </div>
 
+      {/* Settings */}
+      {showSettings && (
+        <>
+          <SettingsPanel />
+          <WorkspaceBackupPanel rampStatus={rampStatus} onRestoreRampStatus={restoreBackupRampStatus} />
+        </>
+      )}
+
+      {/* Ramp suggestions for an arriving truck */}
+      {showSuggestions && (
+        <RampSuggestionPanel
+          rampStatus={rampStatus}
+          onHighlight={setSuggestedRamp}
+          onAssign={assignTruckToRamp}
+          onClose={toggleSuggestions}
+        />
+      )}
+
+      {/* Yard queue */}
+      {showYard && (
+        <YardPanel
+          freeRamps={freeRamps}
+          onAssign={assignYardEntry}
+          onEntryPointerDown={startYardDrag}
+          onClose={toggleYard}
+        />
+      )}
+
+      {/* Reservations */}
+      {showReservations && <ReservationsPanel rampNumbers={rampNumbers} onClose={toggleReservations} />}
+
+      {/* Ramp Details */}
+      {detailsRamp !== null && (
+        <RampDetailsPanel
+          rampNumber={detailsRamp}
+          status={rampStatus[detailsRamp]}
+          onReportDefect={reportDefect}
+          onResolveDefect={resolveDefect}
+          onShowHistory={showRampHistory}
+          onClose={closeDetails}
+        />
+      )}
+
+      {/* Ramp History */}
+      {historyRamp !== null && (
+        <RampHistoryPanel
+          rampNumbers={rampNumbers}
+          selectedRamp={historyRamp}
+          onSelectRamp={setHistoryRamp}
+          onClose={closeHistory}
+        />
+      )}
+
       {/* Database Tools */}
       {showUploader && <HtmlUploader />}
 
@@ -519,22 +1278,86 @@ function WarehouseVisualizationContent() {
             rampStatus={rampStatus}
             onRampClick={handleRampClick}
             onInputChange={handleInputChange}
+            onRampContextMenu={handleRampContextMenu}
             orientation={orientation}
+            layout={layout}
+            reservations={reservations}
+            yardQueue={yardQueue}
+            onYardEntryPointerDown={startYardDrag}
+            onTruckPointerDown={handleTruckPointerDown}
+            dropTargetRamp={yardDropTarget ?? truckDropTarget}
+            suggestedRamp={suggestedRamp}
+            onResolveConflict={resolveRampConflict}
           />
         </div>
       </div>
       <Legend />
+      {yardDrag && (
+        <div
+          className={`ramp-drag-preview ${yardDrag.overRamp !== null && yardDropTarget === null ? "invalid" : ""}`}
+          style={{ left: yardDrag.x, top: yardDrag.y }}
+        >
+          🚚 {yardDrag.item.truck || "-"} / {yardDrag.item.trailer || "-"}
+          {yardDropTarget !== null ? ` → ${yardDropTarget}` : ""}
+        </div>
+      )}
+      {truckDrag && (
+        <div
+          className={`ramp-drag-preview ${truckDrag.overRamp !== null && truckDropTarget === null ? "invalid" : ""}`}
+          style={{ left: truckDrag.x, top: truckDrag.y }}
+        >
+          🚚 {truckDrag.item}
+          {truckDropTarget !== null ? ` → ${truckDropTarget}` : ""}
+        </div>
+      )}
+      <ReleaseConfirmDialog
+        rampNumber={pendingRelease}
+        truck={pendingRelease !== null ? rampStatus[pendingRelease]?.truckValue || "" : ""}
+        trailer={pendingRelease !== null ? rampStatus[pendingRelease]?.trailerValue || "" : ""}
+        onConfirm={confirmRelease}
+        onCancel={cancelRelease}
+      />
+      <Toaster />
     </div>
   )
 }
 
+// Everything below the site is remounted when the site changes, so no state leaks between sites
+function SiteScopedProviders() {
+  const { activeSite, isReady } = useSite()
+
+  if (!isReady) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>
+  }
+
+  return (
+    <LayoutProvider key={activeSite.id}>
+      <SupabaseSyncProvider>
+        <LookupSnapshotProvider>
+          <LookupAuditProvider>
+            <LookupProvider>
+              <RampHistoryProvider>
+                <ReservationProvider>
+                  <YardProvider>
+                    <WarehouseVisualizationContent />
+                  </YardProvider>
+                </ReservationProvider>
+              </RampHistoryProvider>
+            </LookupProvider>
+          </LookupAuditProvider>
+        </LookupSnapshotProvider>
+      </SupabaseSyncProvider>
+    </LayoutProvider>
+  )
+}
+
 function WarehouseVisualization() {
   return (
-    <SupabaseSyncProvider>
-      <LookupProvider>
-        <WarehouseVisualizationContent />
-      </LookupProvider>
-    </SupabaseSyncProvider>
+    <SettingsProvider>
+      <SiteProvider>
+        <SiteScopedProviders />
+      </SiteProvider>
+    </SettingsProvider>
   )
 }
 
@@ -0,0 +1,254 @@
+"use client"
+
+import type React from "react"
+import { useState, useCallback, memo } from "react"
+import type { RampStatus } from "./warehouse-visualization"
+import { useLookup } from "@/contexts/lookup-context"
+import { useSettings } from "@/contexts/settings-context"
+import { useSite } from "@/contexts/site-context"
+import { useLayout } from "@/contexts/layout-context"
+import { useImportProfiles } from "@/hooks/use-import-profiles"
+import { getLayoutRampNumbers } from "@/lib/layout-definition"
+import { formatRampList } from "@/lib/ramp-suggestions"
+import {
+  createWorkspaceBackup,
+  parseWorkspaceBackup,
+  restoreImportProfiles,
+  restoreSettings,
+  type ParsedWorkspaceBackup,
+  type RampStatusRestoreResult,
+  type RestoreMode,
+} from "@/lib/workspace-backup"
+import ImportReport from "./import-report"
+
+interface WorkspaceBackupPanelProps {
+  rampStatus: Record<number, RampStatus>
+  // Only ramps of the given layout are restored
+  onRestoreRampStatus: (
+    rampStatus: Record<number, Partial<RampStatus>>,
+    mode: RestoreMode,
+    layoutRampNumbers: number[],
+  ) => RampStatusRestoreResult
+}
+
+interface PendingRestore extends ParsedWorkspaceBackup {
+  fileName: string
+}
+
+function WorkspaceBackupPanel({ rampStatus, onRestoreRampStatus }: WorkspaceBackupPanelProps) {
+  const { lookupData, lastUpdated, restoreLookupData, isLoading } = useLookup()
+  const { settings, updateSettings } = useSettings()
+  const { activeSite, sites, restoreSites } = useSite()
+  const { layout, rampNumbers, isDefaultLayout, restoreLayout } = useLayout()
+  const { customProfiles, replaceProfiles } = useImportProfiles()
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null)
+  const [mode, setMode] = useState<RestoreMode>("merge")
+  const [backupError, setBackupError] = useState<string | null>(null)
+  const [restoreResult, setRestoreResult] = useState<string | null>(null)
+
+  const handleDownload = useCallback(() => {
+    const backup = createWorkspaceBackup({
+      siteId: activeSite.id,
+      lookupData,
+      lookupLastUpdated: lastUpdated,
+      rampStatus,
+      settings,
+      layout,
+      sites,
+      importProfiles: customProfiles,
+    })
+    const blob = new Blob([backup], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `workspace-backup-${activeSite.id}-${new Date().toISOString().slice(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }, [activeSite.id, lookupData, lastUpdated, rampStatus, settings, layout, sites, customProfiles])
+
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    setBackupError(null)
+    setRestoreResult(null)
+    try {
+      setPendingRestore({ ...parseWorkspaceBackup(await file.text()), fileName: file.name })
+    } catch (error) {
+      console.error("❌ Failed to read workspace backup:", error)
+      setPendingRestore(null)
+      setBackupError(`Cannot restore ${file.name}: ${error instanceof Error ? error.message : "invalid file"}`)
+    }
+  }, [])
+
+  // The lookup data goes first: it is the only part that can fail, and then nothing else is changed.
+  // The layout goes before the ramp status, so the ramps of a custom layout have somewhere to go
+  const handleRestore = useCallback(async () => {
+    if (!pendingRestore) return
+    const { backup } = pendingRestore
+    const restored: string[] = []
+    const skipped: string[] = []
+
+    setBackupError(null)
+    setRestoreResult(null)
+    try {
+      if (backup.lookup) {
+        await restoreLookupData(backup.lookup.entries, mode === "merge", pendingRestore.fileName)
+        restored.push(`${backup.lookup.entries.length} lookup entries`)
+      }
+      if (backup.settings) {
+        updateSettings(restoreSettings(settings, backup.settings, mode))
+        restored.push("settings")
+      }
+      if (backup.sites) {
+        restoreSites(backup.sites)
+        restored.push("sites")
+      }
+      if (backup.importProfiles) {
+        replaceProfiles(restoreImportProfiles(customProfiles, backup.importProfiles, mode))
+        restored.push(`${backup.importProfiles.length} import profile(s)`)
+      }
+      // Merging keeps a custom layout this device already has
+      let layoutRampNumbers = rampNumbers
+      if (backup.layout && (mode === "overwrite" || isDefaultLayout)) {
+        restoreLayout(backup.layout)
+        layoutRampNumbers = getLayoutRampNumbers(backup.layout)
+        restored.push(`layout "${backup.layout.name}"`)
+      }
+      if (backup.rampStatus) {
+        const { restoredCount, skippedRamps } = onRestoreRampStatus(backup.rampStatus, mode, layoutRampNumbers)
+        restored.push(`${restoredCount} ramp(s)`)
+        if (skippedRamps.length > 0) {
+          skipped.push(`ramp(s) ${formatRampList(skippedRamps)} are not in the layout`)
+        }
+      }
+    } catch (error) {
+      console.error("❌ Failed to restore workspace backup:", error)
+      const message = error instanceof Error ? error.message : "unknown error"
+      setBackupError(
+        `Restoring ${pendingRestore.fileName} failed: ${message}${
+          restored.length > 0 ? ` (already restored: ${restored.join(", ")})` : ""
+        }`,
+      )
+      return
+    }
+
+    console.log(`♻️ Restored ${pendingRestore.fileName} (${mode}): ${restored.join(", ")}`)
+    setRestoreResult(
+      `Restored ${restored.join(", ")} from ${pendingRestore.fileName}${
+        skipped.length > 0 ? `; skipped ${skipped.join(", ")}` : ""
+      }`,
+    )
+    setPendingRestore(null)
+  }, [
+    pendingRestore,
+    mode,
+    settings,
+    updateSettings,
+    restoreSites,
+    customProfiles,
+    replaceProfiles,
+    rampNumbers,
+    isDefaultLayout,
+    restoreLayout,
+    onRestoreRampStatus,
+    restoreLookupData,
+  ])
+
+  const backup = pendingRestore?.backup
+  const backupSiteName = backup ? sites.find((site) => site.id === backup.siteId)?.name || backup.siteId : ""
+
+  return (
+    <div className="mb-4 p-2 bg-white border border-gray-300 rounded shadow-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-semibold text-sm">Workspace Backup</h4>
+        <div className="flex space-x-2">
+          <button
+            onClick={handleDownload}
+            className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs"
+          >
+            Download Backup
+          </button>
+          <label className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs cursor-pointer">
+            Restore…
+            <input type="file" accept=".json" onChange={handleFileChange} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        One file with the lookup data, ramp status, layout and settings of {activeSite.name}, plus the sites and
+        import profiles of this device. Reservations and the yard queue are not included.
+      </p>
+
+      {backupError && <p className="text-xs text-red-600 mt-2">{backupError}</p>}
+      {restoreResult && <p className="text-xs text-green-700 mt-2">{restoreResult}</p>}
+
+      {pendingRestore && backup && (
+        <div className="mt-2 p-2 border border-gray-200 rounded text-xs">
+          <p className="font-semibold mb-1">{pendingRestore.fileName}</p>
+          <ul className="mb-2 text-gray-700">
+            {backup.createdAt && <li>Created {new Date(backup.createdAt).toLocaleString()}</li>}
+            {backup.siteId && <li>Site: {backupSiteName}</li>}
+            <li>Lookup data: {backup.lookup ? `${backup.lookup.entries.length} entries` : "not included"}</li>
+            <li>
+              Ramp status: {backup.rampStatus ? `${Object.keys(backup.rampStatus).length} ramps` : "not included"}
+            </li>
+            <li>Settings: {backup.settings ? "included" : "not included"}</li>
+            <li>Layout: {backup.layout ? backup.layout.name : "not included"}</li>
+            <li>Sites: {backup.sites ? backup.sites.length : "not included"}</li>
+            <li>
+              Import profiles: {backup.importProfiles ? backup.importProfiles.length : "not included"}
+            </li>
+          </ul>
+
+          {pendingRestore.migratedFrom && (
+            <p className="text-amber-700 mb-2">Upgraded from an older format ({pendingRestore.migratedFrom}).</p>
+          )}
+          {backup.siteId && backup.siteId !== activeSite.id && (
+            <p className="text-amber-700 mb-2">
+              This backup was made for {backupSiteName}; it will be restored into {activeSite.name}.
+            </p>
+          )}
+
+          <div className="flex flex-col space-y-1 mb-2">
+            <label className="flex items-center space-x-2">
+              <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+              <span>
+                Merge: add the backup's trucks and profiles, fill free ramps only, keep current settings and custom
+                layout
+              </span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input type="radio" checked={mode === "overwrite"} onChange={() => setMode("overwrite")} />
+              <span>
+                Overwrite: replace the lookup data, every ramp in the backup, the settings, layout and profiles
+              </span>
+            </label>
+          </div>
+
+          <ImportReport fileName={pendingRestore.fileName} warnings={pendingRestore.warnings} />
+
+          <div className="flex space-x-2">
+            <button
+              onClick={handleRestore}
+              disabled={isLoading}
+              className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm disabled:cursor-not-allowed"
+            >
+              {isLoading ? "Restoring..." : "Restore"}
+            </button>
+            <button
+              onClick={() => setPendingRestore(null)}
+              className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default memo(WorkspaceBackupPanel)
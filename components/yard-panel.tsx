@@ -0,0 +1,159 @@
+"use client"
+
+import type React from "react"
+import { useState, useCallback, memo } from "react"
+import { useYard, type YardEntry } from "@/contexts/yard-context"
+
+interface YardPanelProps {
+  freeRamps: number[]
+  onAssign: (entry: YardEntry, rampNumber: number) => void
+  onEntryPointerDown: (entry: YardEntry, e: React.PointerEvent) => void
+  onClose: () => void
+}
+
+// Memoized yard entry row component
+const YardEntryRow = memo(
+  ({
+    entry,
+    index,
+    freeRamps,
+    onAssign,
+    onRemove,
+    onPointerDown,
+  }: {
+    entry: YardEntry
+    index: number
+    freeRamps: number[]
+    onAssign: (entry: YardEntry, rampNumber: number) => void
+    onRemove: (id: string) => void
+    onPointerDown: (entry: YardEntry, e: React.PointerEvent) => void
+  }) => (
+    <tr className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+      <td
+        className="px-1 cursor-grab select-none"
+        onPointerDown={(e) => onPointerDown(entry, e)}
+        style={{ touchAction: "none" }}
+        title="Drag onto a free ramp"
+      >
+        ⠿
+      </td>
+      <td className="px-1 font-mono">{entry.truck || "-"}</td>
+      <td className="px-1 font-mono">{entry.trailer || "-"}</td>
+      <td className="px-1 whitespace-nowrap">{new Date(entry.arrivedAt).toLocaleTimeString()}</td>
+      <td className="px-1">
+        <select
+          value=""
+          onChange={(e) => e.target.value && onAssign(entry, Number(e.target.value))}
+          className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+          disabled={freeRamps.length === 0}
+        >
+          <option value="">{freeRamps.length === 0 ? "No free ramp" : "Assign to…"}</option>
+          {freeRamps.map((rampNumber) => (
+            <option key={rampNumber} value={rampNumber}>
+              Ramp {rampNumber}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="px-1">
+        <button
+          onClick={() => onRemove(entry.id)}
+          className="bg-red-500 hover:bg-red-600 text-white px-2 py-0.5 rounded text-xs"
+        >
+          Remove
+        </button>
+      </td>
+    </tr>
+  ),
+)
+
+YardEntryRow.displayName = "YardEntryRow"
+
+function YardPanel({ freeRamps, onAssign, onEntryPointerDown, onClose }: YardPanelProps) {
+  const { yardQueue, addToYard, removeFromYard } = useYard()
+  const [truck, setTruck] = useState("")
+  const [trailer, setTrailer] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault()
+      setError(null)
+
+      try {
+        addToYard(truck, trailer)
+        setTruck("")
+        setTrailer("")
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not add the truck")
+      }
+    },
+    [addToYard, truck, trailer],
+  )
+
+  return (
+    <div className="mb-4 p-2 bg-white border border-gray-300 rounded shadow-sm text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-semibold">Yard ({yardQueue.length} waiting)</h4>
+        <button onClick={onClose} className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs">
+          Close
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2 mb-2">
+        <input
+          type="text"
+          value={truck}
+          onChange={(e) => setTruck(e.target.value)}
+          placeholder="Truck"
+          className="border border-gray-300 rounded px-1 py-0.5 w-28"
+        />
+        <input
+          type="text"
+          value={trailer}
+          onChange={(e) => setTrailer(e.target.value)}
+          placeholder="Trailer"
+          className="border border-gray-300 rounded px-1 py-0.5 w-28"
+        />
+        <button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded text-xs">
+          Truck Arrived
+        </button>
+        {error && <span className="text-red-600 text-xs">{error}</span>}
+      </form>
+
+      {yardQueue.length === 0 ? (
+        <p className="text-gray-500 text-xs">The yard is empty</p>
+      ) : (
+        <div className="max-h-60 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left bg-gray-100">
+                <th className="px-1"></th>
+                <th className="px-1">Truck</th>
+                <th className="px-1">Trailer</th>
+                <th className="px-1">Arrived</th>
+                <th className="px-1">Ramp</th>
+                <th className="px-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {yardQueue.map((entry, index) => (
+                <YardEntryRow
+                  key={entry.id}
+                  entry={entry}
+                  index={index}
+                  freeRamps={freeRamps}
+                  onAssign={onAssign}
+                  onRemove={removeFromYard}
+                  onPointerDown={onEntryPointerDown}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default memo(YardPanel)
@@ -0,0 +1,127 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react"
+import {
+  DEFAULT_LAYOUT,
+  getLayoutRampNumbers,
+  parseLayoutDefinition,
+  type WarehouseLayoutDefinition,
+} from "@/lib/layout-definition"
+import { scopedStorageKey } from "@/lib/sites"
+import { useSite } from "./site-context"
+
+interface LayoutContextType {
+  layout: WarehouseLayoutDefinition
+  rampNumbers: number[]
+  isDefaultLayout: boolean
+  importLayout: (file: File) => Promise<void>
+  // Take a layout from a workspace backup (already validated)
+  restoreLayout: (layout: WarehouseLayoutDefinition) => void
+  resetLayout: () => void
+  layoutError: string | null
+}
+
+const defaultContextValue: LayoutContextType = {
+  layout: DEFAULT_LAYOUT,
+  rampNumbers: getLayoutRampNumbers(DEFAULT_LAYOUT),
+  isDefaultLayout: true,
+  importLayout: async () => {},
+  restoreLayout: () => {},
+  resetLayout: () => {},
+  layoutError: null,
+}
+
+const LayoutContext = createContext<LayoutContextType>(defaultContextValue)
+
+export function LayoutProvider({ children }: { children: React.ReactNode }) {
+  const isInitialized = useRef(false)
+  const [layout, setLayout] = useState<WarehouseLayoutDefinition>(DEFAULT_LAYOUT)
+  const [isDefaultLayout, setIsDefaultLayout] = useState(true)
+  const [layoutError, setLayoutError] = useState<string | null>(null)
+
+  // Each site has its own layout; the provider is remounted when the site changes
+  const { activeSite } = useSite()
+  const layoutStorageKey = scopedStorageKey("warehouseLayout", activeSite.id)
+
+  // Load a previously imported layout
+  useEffect(() => {
+    if (isInitialized.current) return
+    isInitialized.current = true
+
+    try {
+      const savedLayout = localStorage.getItem(layoutStorageKey)
+      if (savedLayout) {
+        setLayout(parseLayoutDefinition(JSON.parse(savedLayout)))
+        setIsDefaultLayout(false)
+      }
+    } catch (e) {
+      console.error("❌ Failed to load saved layout, using default", e)
+    }
+  }, [layoutStorageKey])
+
+  const importLayout = useCallback(
+    async (file: File) => {
+      setLayoutError(null)
+
+      try {
+        const newLayout = parseLayoutDefinition(JSON.parse(await file.text()))
+        setLayout(newLayout)
+        setIsDefaultLayout(false)
+        localStorage.setItem(layoutStorageKey, JSON.stringify(newLayout))
+        console.log(`🏗️ Imported layout "${newLayout.name}" (${getLayoutRampNumbers(newLayout).length} ramps)`)
+      } catch (e) {
+        console.error("❌ Layout import failed:", e)
+        setLayoutError(`Layout import failed: ${e instanceof Error ? e.message : "invalid JSON"}`)
+      }
+    },
+    [layoutStorageKey],
+  )
+
+  const resetLayout = useCallback(() => {
+    setLayout(DEFAULT_LAYOUT)
+    setIsDefaultLayout(true)
+    setLayoutError(null)
+    localStorage.removeItem(layoutStorageKey)
+  }, [layoutStorageKey])
+
+  const restoreLayout = useCallback(
+    (nextLayout: WarehouseLayoutDefinition) => {
+      if (JSON.stringify(nextLayout) === JSON.stringify(DEFAULT_LAYOUT)) {
+        resetLayout()
+        return
+      }
+      setLayout(nextLayout)
+      setIsDefaultLayout(false)
+      setLayoutError(null)
+      localStorage.setItem(layoutStorageKey, JSON.stringify(nextLayout))
+      console.log(`🏗️ Restored layout "${nextLayout.name}" (${getLayoutRampNumbers(nextLayout).length} ramps)`)
+    },
+    [layoutStorageKey, resetLayout],
+  )
+
+  const rampNumbers = useMemo(() => getLayoutRampNumbers(layout), [layout])
+
+  const contextValue = useMemo(
+    () => ({
+      layout,
+      rampNumbers,
+      isDefaultLayout,
+      importLayout,
+      restoreLayout,
+      resetLayout,
+      layoutError,
+    }),
+    [layout, rampNumbers, isDefaultLayout, importLayout, restoreLayout, resetLayout, layoutError],
+  )
+
+  return <LayoutContext.Provider value={contextValue}>{children}</LayoutContext.Provider>
+}
+
+export function useLayout() {
+  const context = useContext(LayoutContext)
+  if (!context) {
+    throw new Error("useLayout must be used within a LayoutProvider")
+  }
+  return context
+}
@@ -0,0 +1,230 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useCallback, useMemo } from "react"
+import { supabase, type LookupAuditRow } from "@/lib/supabase"
+import { createId } from "@/lib/utils"
+import { useSupabaseSync } from "./supabase-sync-context"
+import { useSite } from "./site-context"
+import { scopedStorageKey } from "@/lib/sites"
+import { useSyncedLog } from "@/hooks/use-synced-log"
+import type { TruckTrailerMapping } from "@/utils/html-parser"
+import { diffLookupData } from "@/utils/lookup-diff"
+
+export type LookupAuditAction = "create" | "update" | "delete"
+
+// Where a change to a pair came from
+export type LookupAuditSource =
+  | "html-import"
+  | "excel-import"
+  | "lookup-import"
+  | "manual"
+  | "restore"
+  | "rollback"
+  | "clear"
+
+// One change to a truck-trailer pair
+export interface LookupAuditEntry {
+  id: string
+  action: LookupAuditAction
+  truck: string
+  // Empty for a created pair
+  oldTrailer: string
+  // Empty for a deleted pair
+  newTrailer: string
+  source: LookupAuditSource
+  // Source file of an import or restore
+  fileName: string | null
+  timestamp: string
+  syncId: string
+  synced?: boolean
+}
+
+export interface LookupAuditFilter {
+  // Matches truck, old trailer or new trailer
+  query: string
+  source: LookupAuditSource | null
+}
+
+interface LookupAuditContextType {
+  entries: LookupAuditEntry[]
+  recordLookupAudit: (
+    previous: TruckTrailerMapping[],
+    next: TruckTrailerMapping[],
+    source: LookupAuditSource,
+    fileName?: string | null,
+  ) => void
+  searchLookupAudit: (filter: LookupAuditFilter) => Promise<LookupAuditEntry[]>
+}
+
+const defaultContextValue: LookupAuditContextType = {
+  entries: [],
+  recordLookupAudit: () => {},
+  searchLookupAudit: async () => [],
+}
+
+// Keep the local copy bounded; the full audit trail lives in Supabase
+const MAX_LOCAL_ENTRIES = 5000
+
+const toLookupAuditRow = (entry: LookupAuditEntry, siteId: string): LookupAuditRow => ({
+  id: entry.id,
+  site_id: siteId,
+  action: entry.action,
+  truck: entry.truck,
+  old_trailer: entry.oldTrailer,
+  new_trailer: entry.newTrailer,
+  source: entry.source,
+  file_name: entry.fileName,
+  sync_id: entry.syncId,
+  created_at: entry.timestamp,
+})
+
+const fromLookupAuditRow = (row: LookupAuditRow): LookupAuditEntry => ({
+  id: row.id,
+  action: row.action as LookupAuditAction,
+  truck: row.truck,
+  oldTrailer: row.old_trailer || "",
+  newTrailer: row.new_trailer || "",
+  source: row.source as LookupAuditSource,
+  fileName: row.file_name,
+  timestamp: new Date(row.created_at).toISOString(),
+  syncId: row.sync_id || "",
+  synced: true,
+})
+
+const matchesFilter = (entry: LookupAuditEntry, { query, source }: LookupAuditFilter) => {
+  if (source && entry.source !== source) return false
+  const search = query.trim().toLowerCase()
+  if (!search) return true
+  return [entry.truck, entry.oldTrailer, entry.newTrailer].some((value) => value.toLowerCase().includes(search))
+}
+
+const LookupAuditContext = createContext<LookupAuditContextType>(defaultContextValue)
+
+export function LookupAuditProvider({ children }: { children: React.ReactNode }) {
+  const { syncId, isSupabaseAvailable, connectionStatus } = useSupabaseSync()
+  const { activeSite } = useSite()
+  const siteId = activeSite.id
+  const isConnected = isSupabaseAvailable && connectionStatus === "connected" && supabase !== null
+
+  const uploadEntries = useCallback(
+    async (unsynced: LookupAuditEntry[]) => {
+      if (!supabase) {
+        throw new Error("Supabase is not configured")
+      }
+      const rows = unsynced.map((entry) => toLookupAuditRow(entry, siteId))
+      const { error } = await supabase.from("lookup_audit").upsert(rows, { onConflict: "id", ignoreDuplicates: true })
+      if (error) {
+        throw error
+      }
+    },
+    [siteId],
+  )
+
+  // Entries recorded while offline are pushed once Supabase is reachable
+  const { entries, appendEntries } = useSyncedLog<LookupAuditEntry>({
+    storageKey: scopedStorageKey("lookupAuditLog", siteId),
+    maxEntries: MAX_LOCAL_ENTRIES,
+    label: "lookup audit entries",
+    isConnected,
+    upload: uploadEntries,
+  })
+
+  // Record one entry per pair that differs between the two versions of the data
+  const recordLookupAudit = useCallback(
+    (
+      previous: TruckTrailerMapping[],
+      next: TruckTrailerMapping[],
+      source: LookupAuditSource,
+      fileName: string | null = null,
+    ) => {
+      const diff = diffLookupData(previous, next)
+      const timestamp = new Date().toISOString()
+      const createEntry = (action: LookupAuditAction, truck: string, oldTrailer: string, newTrailer: string) => ({
+        id: createId(),
+        action,
+        truck,
+        oldTrailer,
+        newTrailer,
+        source,
+        fileName,
+        timestamp,
+        syncId,
+        synced: false,
+      })
+
+      const newEntries: LookupAuditEntry[] = [
+        ...diff.added.map((item) => createEntry("create", item.truck, "", item.trailer)),
+        ...diff.changed.map(({ truck, before, after }) => createEntry("update", truck, before.trailer, after.trailer)),
+        ...diff.removed.map((item) => createEntry("delete", item.truck, item.trailer, "")),
+      ]
+      if (newEntries.length === 0) return
+
+      appendEntries(newEntries)
+
+      console.log(
+        `🧾 Lookup audit (${source}): ${diff.added.length} created, ${diff.changed.length} updated, ${diff.removed.length} deleted`,
+      )
+    },
+    [syncId, appendEntries],
+  )
+
+  // Matching entries, newest first - from all devices when connected
+  const searchLookupAudit = useCallback(
+    async (filter: LookupAuditFilter): Promise<LookupAuditEntry[]> => {
+      const merged = new Map<string, LookupAuditEntry>()
+      for (const entry of entries) {
+        if (matchesFilter(entry, filter)) {
+          merged.set(entry.id, entry)
+        }
+      }
+
+      if (isConnected && supabase) {
+        try {
+          let request = supabase.from("lookup_audit").select("*").eq("site_id", siteId)
+          if (filter.source) {
+            request = request.eq("source", filter.source)
+          }
+          // Characters with a meaning in PostgREST filters are left out of the search
+          const search = filter.query.trim().replace(/[,()%*\\]/g, "")
+          if (search) {
+            request = request.or(`truck.ilike.%${search}%,old_trailer.ilike.%${search}%,new_trailer.ilike.%${search}%`)
+          }
+
+          const { data, error } = await request.order("created_at", { ascending: false }).limit(500)
+          if (error) {
+            throw error
+          }
+
+          for (const row of (data || []) as LookupAuditRow[]) {
+            merged.set(row.id, fromLookupAuditRow(row))
+          }
+        } catch (error) {
+          console.error("❌ Failed to search the lookup audit trail:", error)
+        }
+      }
+
+      return Array.from(merged.values()).sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    },
+    [entries, isConnected, siteId],
+  )
+
+  const contextValue = useMemo(
+    () => ({
+      entries,
+      recordLookupAudit,
+      searchLookupAudit,
+    }),
+    [entries, recordLookupAudit, searchLookupAudit],
+  )
+
+  return <LookupAuditContext.Provider value={contextValue}>{children}</LookupAuditContext.Provider>
+}
+
+export function useLookupAudit() {
+  const context = useContext(LookupAuditContext)
+  if (!context) {
+    throw new Error("useLookupAudit must be used within a LookupAuditProvider")
+  }
+  return context
+}
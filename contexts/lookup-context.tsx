@@ -4,17 +4,59 @@ import type React from "react"
 import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { supabase } from "@/lib/supabase"
 import { useSupabaseSync } from "./supabase-sync-context"
-import { parseHtmlFile, type TruckTrailerMapping } from "@/utils/html-parser"
+import { useSite } from "./site-context"
+import { useLookupSnapshots, type LookupChangeDetails, type LookupSnapshot } from "./lookup-snapshot-context"
+import { useLookupAudit, type LookupAuditSource } from "./lookup-audit-context"
+import { scopedStorageKey } from "@/lib/sites"
+import type { TruckTrailerMapping } from "@/utils/html-parser"
+import {
+  describeImportSource,
+  parseImportFile,
+  resolveImportFileType,
+  type ImportFileType,
+  type ImportOptions,
+} from "@/utils/import-file"
+import {
+  buildNormalizedLookupIndex,
+  findLookupCandidates,
+  findNormalizedLookupEntry,
+  type LookupCandidate,
+  type LookupField,
+} from "@/utils/lookup-matching"
+import { applyAcceptedChanges, diffLookupData, type LookupDiff } from "@/utils/lookup-diff"
+import type { ImportWarning } from "@/utils/import-report"
+
+// What an import would change, shown before it is applied
+export interface ImportPreview {
+  fileName: string
+  fileType: ImportFileType
+  // HTML profile or spreadsheet sheet the rows were read with
+  sourceLabel: string
+  mergeMode: boolean
+  // Usable rows from the file
+  imported: TruckTrailerMapping[]
+  // Current lookup data → data after accepting every change
+  diff: LookupDiff
+  // Source rows the parser skipped or could only partly read
+  warnings: ImportWarning[]
+}
 
 interface LookupContextType {
   lookupData: TruckTrailerMapping[]
   isLoading: boolean
   error: string | null
-  uploadHtml: (file: File, mergeMode?: boolean) => Promise<void>
+  previewImport: (file: File, mergeMode?: boolean, options?: ImportOptions) => Promise<ImportPreview | null>
+  applyImport: (preview: ImportPreview, rejectedTrucks?: Set<string>) => Promise<void>
+  // Rejects when the data could not be restored
+  restoreLookupData: (entries: TruckTrailerMapping[], mergeMode: boolean, fileName: string) => Promise<void>
+  rollbackToSnapshot: (snapshot: LookupSnapshot) => Promise<void>
   clearData: () => void
   addTruckTrailerPair: (truck: string, trailer: string) => Promise<string>
+  // Exact match first, else the one entry that matches up to case, separators, leading zeros or a letter prefix
   lookupTrailerByTruck: (truck: string) => string | null
   lookupTruckByTrailer: (trailer: string) => string | null
+  // Ranked entries matching a partly typed or mistyped truck or trailer
+  findLookupMatches: (value: string, field: LookupField) => LookupCandidate[]
   lastUpdated: Date | null
   dataCount: number
   forceRefresh: () => Promise<void>
@@ -24,16 +66,27 @@ const defaultContextValue: LookupContextType = {
   lookupData: [],
   isLoading: false,
   error: null,
-  uploadHtml: async () => {},
+  previewImport: async () => null,
+  applyImport: async () => {},
+  restoreLookupData: async () => {},
+  rollbackToSnapshot: async () => {},
   clearData: () => {},
   addTruckTrailerPair: async () => "",
   lookupTrailerByTruck: () => null,
   lookupTruckByTrailer: () => null,
+  findLookupMatches: () => [],
   lastUpdated: null,
   dataCount: 0,
   forceRefresh: async () => {},
 }
 
+// Audit trail source for the changes an import makes
+const importAuditSources: Record<ImportFileType, LookupAuditSource> = {
+  html: "html-import",
+  spreadsheet: "excel-import",
+  "lookup-export": "lookup-import",
+}
+
 const LookupContext = createContext<LookupContextType>(defaultContextValue)
 
 export function LookupProvider({ children }: { children: React.ReactNode }) {
@@ -51,6 +104,14 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
   const [updateTrigger, setUpdateTrigger] = useState(0)
 
   const { syncLookupData, isSupabaseAvailable, connectionStatus } = useSupabaseSync()
+  const { recordSnapshot } = useLookupSnapshots()
+  const { recordLookupAudit } = useLookupAudit()
+
+  // Lookup data is per site; the provider is remounted when the site changes
+  const { activeSite } = useSite()
+  const siteId = activeSite.id
+  const lookupStorageKey = scopedStorageKey("truckTrailerLookup", siteId)
+  const lookupUpdatedStorageKey = scopedStorageKey("lookupLastUpdated", siteId)
 
   // Create optimized lookup maps - now depends on updateTrigger to ensure fresh maps
   const truckMap = useMemo(() => {
@@ -81,6 +142,10 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
     return map
   }, [lookupData, updateTrigger])
 
+  // Fallback for values typed differently than stored, e.g. "80" for truck "080" or "o154" for trailer "O-154"
+  const normalizedTruckIndex = useMemo(() => buildNormalizedLookupIndex(lookupData, "truck"), [lookupData])
+  const normalizedTrailerIndex = useMemo(() => buildNormalizedLookupIndex(lookupData, "trailer"), [lookupData])
+
   // Helper function to trigger updates and notify components
   const triggerLookupUpdate = useCallback(() => {
     setUpdateTrigger((prev) => prev + 1)
@@ -181,6 +246,7 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
         const { data, error, count } = await supabase
           .from("lookup_data")
           .select("*", { count: "exact" })
+          .eq("site_id", siteId)
           .order("row_number", { ascending: true })
           .abortSignal(controller.signal)
 
@@ -230,7 +296,7 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
         throw error
       }
     },
-    [isSupabaseAvailable, connectionStatus],
+    [isSupabaseAvailable, connectionStatus, siteId],
   )
 
   // ENHANCED: Force refresh function to manually sync data
@@ -249,8 +315,8 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
           setLastUpdated(new Date())
 
           // Update localStorage to match Supabase
-          localStorage.setItem("truckTrailerLookup", JSON.stringify(mappings))
-          localStorage.setItem("lookupLastUpdated", new Date().toISOString())
+          localStorage.setItem(lookupStorageKey, JSON.stringify(mappings))
+          localStorage.setItem(lookupUpdatedStorageKey, new Date().toISOString())
 
           // Trigger lookup maps update
           setTimeout(triggerLookupUpdate, 100)
@@ -270,7 +336,14 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setIsLoading(false)
     }
-  }, [isSupabaseAvailable, connectionStatus, fetchLookupDataSafely, triggerLookupUpdate])
+  }, [
+    isSupabaseAvailable,
+    connectionStatus,
+    fetchLookupDataSafely,
+    triggerLookupUpdate,
+    lookupStorageKey,
+    lookupUpdatedStorageKey,
+  ])
 
   // ENHANCED: Load initial data with better consistency
   useEffect(() => {
@@ -294,8 +367,8 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
             setLastUpdated(new Date())
 
             // Update localStorage to match Supabase exactly
-            localStorage.setItem("truckTrailerLookup", JSON.stringify(mappings))
-            localStorage.setItem("lookupLastUpdated", new Date().toISOString())
+            localStorage.setItem(lookupStorageKey, JSON.stringify(mappings))
+            localStorage.setItem(lookupUpdatedStorageKey, new Date().toISOString())
 
             // Trigger lookup maps update
             setTimeout(triggerLookupUpdate, 100)
@@ -318,8 +391,8 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
 
     const loadFromLocalStorage = () => {
       try {
-        const savedData = localStorage.getItem("truckTrailerLookup")
-        const savedTimestamp = localStorage.getItem("lookupLastUpdated")
+        const savedData = localStorage.getItem(lookupStorageKey)
+        const savedTimestamp = localStorage.getItem(lookupUpdatedStorageKey)
 
         if (savedData) {
           const parsedData = JSON.parse(savedData)
@@ -342,7 +415,14 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
     }
 
     loadInitialData()
-  }, [isSupabaseAvailable, connectionStatus, fetchLookupDataSafely, triggerLookupUpdate])
+  }, [
+    isSupabaseAvailable,
+    connectionStatus,
+    fetchLookupDataSafely,
+    triggerLookupUpdate,
+    lookupStorageKey,
+    lookupUpdatedStorageKey,
+  ])
 
   // ENHANCED: Real-time updates with better debouncing and consistency
   useEffect(() => {
@@ -382,8 +462,8 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
           retryCount.current = 0 // Reset retry count on success
 
           // Update localStorage to match Supabase exactly
-          localStorage.setItem("truckTrailerLookup", JSON.stringify(mappings))
-          localStorage.setItem("lookupLastUpdated", new Date().toISOString())
+          localStorage.setItem(lookupStorageKey, JSON.stringify(mappings))
+          localStorage.setItem(lookupUpdatedStorageKey, new Date().toISOString())
 
           // Trigger lookup maps update
           setTimeout(triggerLookupUpdate, 100)
@@ -409,71 +489,186 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
     return () => {
       window.removeEventListener("lookupDataUpdated", handleLookupDataUpdate as EventListener)
     }
-  }, [isSupabaseAvailable, connectionStatus, fetchLookupDataSafely, triggerLookupUpdate])
+  }, [
+    isSupabaseAvailable,
+    connectionStatus,
+    fetchLookupDataSafely,
+    triggerLookupUpdate,
+    lookupStorageKey,
+    lookupUpdatedStorageKey,
+  ])
+
+  // Store imported lookup data locally and on the server, keeping a snapshot of the new version
+  const commitLookupData = useCallback(
+    async (finalData: TruckTrailerMapping[], details: LookupChangeDetails, auditSource: LookupAuditSource) => {
+      // Update local state FIRST
+      console.log(`💾 Setting local state: ${finalData.length} entries`)
+      setLookupData(finalData)
+      recordSnapshot(finalData, details, lookupData)
+      recordLookupAudit(lookupData, finalData, auditSource, details.fileName)
+
+      // Sync to Supabase with better error handling
+      try {
+        console.log(`📡 Syncing ${finalData.length} entries to Supabase...`)
+        await syncLookupData(finalData)
+        console.log(`✅ Supabase sync successful`)
+      } catch (syncError) {
+        console.warn("⚠️ Failed to sync to Supabase, but data is saved locally:", syncError)
+        setError(
+          "Upload successful locally, but sync to server failed. Other devices may not see changes immediately.",
+        )
+      }
+
+      // Update localStorage to match exactly
+      localStorage.setItem(lookupStorageKey, JSON.stringify(finalData))
+      const now = new Date()
+      setLastUpdated(now)
+      localStorage.setItem(lookupUpdatedStorageKey, now.toISOString())
+
+      // Trigger immediate lookup update
+      setTimeout(triggerLookupUpdate, 100)
+    },
+    [
+      lookupData,
+      syncLookupData,
+      recordSnapshot,
+      recordLookupAudit,
+      triggerLookupUpdate,
+      lookupStorageKey,
+      lookupUpdatedStorageKey,
+    ],
+  )
+
+  // The lookup data an import would produce
+  const buildImportTarget = useCallback(
+    (imported: TruckTrailerMapping[], mergeMode: boolean) => {
+      if (mergeMode && lookupData.length > 0) {
+        // Smart merge: preserve existing data, update only trucks from new HTML
+        return mergeHtmlData(lookupData, imported)
+      }
+      // Full replace mode
+      return imported
+    },
+    [lookupData, mergeHtmlData],
+  )
 
-  // ENHANCED: Upload with better sync consistency
-  const uploadHtml = useCallback(
-    async (file: File, mergeMode = true) => {
+  // Parse an HTML, Excel or CSV file and show what it would change, without touching the data yet
+  const previewImport = useCallback(
+    async (file: File, mergeMode = true, options: ImportOptions = {}): Promise<ImportPreview | null> => {
       setIsLoading(true)
       setError(null)
 
       try {
-        console.log(`🚀 Starting HTML upload (merge: ${mergeMode})...`)
-        const newData = await parseHtmlFile(file)
-        console.log(`📄 Parsed ${newData.length} entries from HTML`)
+        const sourceLabel = describeImportSource(file, options)
+        console.log(`🚀 Previewing import of ${file.name} (merge: ${mergeMode}, ${sourceLabel})...`)
+        const { mappings, warnings } = await parseImportFile(file, options)
+        // Rows missing a truck or trailer are in the warnings; only complete pairs are imported
+        const imported = mappings.filter((item) => item.truck && item.trailer)
+        console.log(`📄 Parsed ${imported.length} entries from ${file.name} (${warnings.length} warnings)`)
+
+        // An empty result usually means the export template changed; never let it wipe the data.
+        // The preview still comes back (with no changes) so the warnings show what went wrong
+        if (imported.length === 0) {
+          setError(`No truck-trailer pairs found using ${sourceLabel}. Check that it matches the file.`)
+        }
 
-        let finalData: TruckTrailerMapping[]
+        const target = imported.length > 0 ? buildImportTarget(imported, mergeMode) : lookupData
+        const diff = diffLookupData(lookupData, target)
+        console.log(
+          `🔎 Import preview: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed, ${warnings.length} warnings`,
+        )
+        // parseImportFile has already rejected files of an unknown type
+        const fileType = resolveImportFileType(file.name, options)!
+        return { fileName: file.name, fileType, sourceLabel, mergeMode, imported, diff, warnings }
+      } catch (e) {
+        console.error("❌ Upload failed:", e)
+        const errorMsg = `Failed to read ${file.name}. Please check the format and try again.`
+        setError(errorMsg)
+        return null
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [lookupData, buildImportTarget],
+  )
 
-        if (mergeMode && lookupData.length > 0) {
-          // Smart merge: preserve existing data, update only trucks from new HTML
-          finalData = mergeHtmlData(lookupData, newData)
-          console.log(`🔄 Smart merge completed: ${finalData.length} total entries`)
-        } else {
-          // Full replace mode
-          finalData = newData
-          console.log(`🔄 Full replace mode: ${finalData.length} entries`)
-        }
+  // Apply a previewed import, leaving out the changes the user rejected
+  const applyImport = useCallback(
+    async (preview: ImportPreview, rejectedTrucks: Set<string> = new Set()) => {
+      if (preview.imported.length === 0) return
 
-        // Update local state FIRST
-        console.log(`💾 Setting local state: ${finalData.length} entries`)
-        setLookupData(finalData)
+      setIsLoading(true)
+      setError(null)
 
-        // Sync to Supabase with better error handling
-        try {
-          console.log(`📡 Syncing ${finalData.length} entries to Supabase...`)
-          await syncLookupData(finalData)
-          console.log(`✅ Supabase sync successful`)
-        } catch (syncError) {
-          console.warn("⚠️ Failed to sync to Supabase, but data is saved locally:", syncError)
-          setError(
-            "Upload successful locally, but sync to server failed. Other devices may not see changes immediately.",
-          )
-        }
+      try {
+        // Rebuilt from the current data, so changes that arrived since the preview are kept
+        const target = buildImportTarget(preview.imported, preview.mergeMode)
+        const finalData = applyAcceptedChanges(lookupData, target, rejectedTrucks)
+        console.log(`🔄 Applying import: ${finalData.length} entries (${rejectedTrucks.size} changes rejected)`)
+
+        await commitLookupData(
+          finalData,
+          { source: "import", fileName: preview.fileName },
+          importAuditSources[preview.fileType],
+        )
+        console.log(`🎉 Upload complete: ${finalData.length} entries ready`)
+      } catch (e) {
+        console.error("❌ Upload failed:", e)
+        setError("Failed to apply the import. Please try again.")
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [lookupData, buildImportTarget, commitLookupData],
+  )
 
-        // Update localStorage to match exactly
-        localStorage.setItem("truckTrailerLookup", JSON.stringify(finalData))
-        const now = new Date()
-        setLastUpdated(now)
-        localStorage.setItem("lookupLastUpdated", now.toISOString())
+  // Put back the lookup data from a workspace backup, merged like an import or replacing everything
+  const restoreLookupData = useCallback(
+    async (entries: TruckTrailerMapping[], mergeMode: boolean, fileName: string) => {
+      setIsLoading(true)
+      setError(null)
 
-        // Clear any previous errors if we got this far
-        if (!error) {
-          setError(null)
-        }
+      try {
+        const finalData = buildImportTarget(entries, mergeMode)
+        console.log(`♻️ Restoring lookup data from backup: ${finalData.length} entries (merge: ${mergeMode})`)
+        await commitLookupData(finalData, { source: "restore", fileName }, "restore")
+      } catch (e) {
+        console.error("❌ Restore failed:", e)
+        setError("Failed to restore the lookup data. Please try again.")
+        // The backup panel reports the failure instead of a restored count
+        throw e
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [buildImportTarget, commitLookupData],
+  )
 
-        // Trigger immediate lookup update
-        setTimeout(triggerLookupUpdate, 100)
+  // Make an earlier version the current data again; it is synced like any other change
+  const rollbackToSnapshot = useCallback(
+    async (snapshot: LookupSnapshot) => {
+      setIsLoading(true)
+      setError(null)
 
-        console.log(`🎉 Upload complete: ${finalData.length} entries ready`)
+      try {
+        console.log(`⏪ Rolling back lookup data to version ${snapshot.version} (${snapshot.rowCount} entries)`)
+        await commitLookupData(
+          snapshot.entries,
+          {
+            source: "rollback",
+            fileName: snapshot.fileName,
+            note: `Rolled back to version ${snapshot.version}`,
+          },
+          "rollback",
+        )
       } catch (e) {
-        console.error("❌ Upload failed:", e)
-        const errorMsg = "Failed to parse HTML file. Please check the format and try again."
-        setError(errorMsg)
+        console.error("❌ Rollback failed:", e)
+        setError("Failed to roll back the lookup data. Please try again.")
       } finally {
         setIsLoading(false)
       }
     },
-    [syncLookupData, triggerLookupUpdate, lookupData, mergeHtmlData, error],
+    [commitLookupData],
   )
 
   const addTruckTrailerPair = useCallback(
@@ -533,6 +728,8 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
 
         // Update local state IMMEDIATELY
         setLookupData(updatedData)
+        recordSnapshot(updatedData, { source: "manual", note: actionMessage }, lookupData)
+        recordLookupAudit(lookupData, updatedData, "manual")
 
         // Trigger immediate lookup update for warehouse inputs
         setTimeout(() => {
@@ -547,8 +744,8 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
         } catch (syncError) {
           console.warn("Failed to sync to Supabase, but data is saved locally:", syncError)
           // Still update localStorage as fallback
-          localStorage.setItem("truckTrailerLookup", JSON.stringify(updatedData))
-          localStorage.setItem("lookupLastUpdated", new Date().toISOString())
+          localStorage.setItem(lookupStorageKey, JSON.stringify(updatedData))
+          localStorage.setItem(lookupUpdatedStorageKey, new Date().toISOString())
         }
 
         const now = new Date()
@@ -562,12 +759,22 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
         throw error // Re-throw so the component can handle it
       }
     },
-    [lookupData, syncLookupData, triggerLookupUpdate],
+    [
+      lookupData,
+      syncLookupData,
+      recordSnapshot,
+      recordLookupAudit,
+      triggerLookupUpdate,
+      lookupStorageKey,
+      lookupUpdatedStorageKey,
+    ],
   )
 
   const clearData = useCallback(async () => {
     console.log("🗑️ Clearing all lookup data...")
     setLookupData([])
+    recordSnapshot([], { source: "clear" }, lookupData)
+    recordLookupAudit(lookupData, [], "clear")
     setError(null)
 
     // Try to sync to Supabase, but don't fail if it doesn't work
@@ -579,21 +786,29 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
     }
 
     // Clear localStorage
-    localStorage.removeItem("truckTrailerLookup")
-    localStorage.removeItem("lookupLastUpdated")
+    localStorage.removeItem(lookupStorageKey)
+    localStorage.removeItem(lookupUpdatedStorageKey)
     setLastUpdated(null)
 
     // Trigger lookup update to clear maps
     triggerLookupUpdate()
     console.log("🗑️ All data cleared")
-  }, [syncLookupData, triggerLookupUpdate])
+  }, [
+    lookupData,
+    syncLookupData,
+    recordSnapshot,
+    recordLookupAudit,
+    triggerLookupUpdate,
+    lookupStorageKey,
+    lookupUpdatedStorageKey,
+  ])
 
   const lookupTrailerByTruck = useCallback(
     (truck: string): string | null => {
       if (!truck || truck.trim() === "") return null
 
       const input = truck.trim()
-      const result = truckMap.get(input) || null
+      const result = truckMap.get(input) || findNormalizedLookupEntry(normalizedTruckIndex, input)?.trailer || null
 
       if (result) {
         console.log(`🔍 Truck lookup: ${input} → ${result}`)
@@ -601,7 +816,7 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
 
       return result
     },
-    [truckMap],
+    [truckMap, normalizedTruckIndex],
   )
 
   const lookupTruckByTrailer = useCallback(
@@ -614,6 +829,9 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
       if (result === undefined && !input.toLowerCase().startsWith("o-")) {
         result = trailerMap.get(`o-${input}`)
       }
+      if (!result) {
+        result = findNormalizedLookupEntry(normalizedTrailerIndex, input)?.truck
+      }
 
       if (result) {
         console.log(`🔍 Trailer lookup: ${input} → ${result}`)
@@ -621,7 +839,12 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
 
       return result || null
     },
-    [trailerMap],
+    [trailerMap, normalizedTrailerIndex],
+  )
+
+  const findLookupMatches = useCallback(
+    (value: string, field: LookupField): LookupCandidate[] => findLookupCandidates(lookupData, value, field),
+    [lookupData],
   )
 
   const contextValue = useMemo(
@@ -629,11 +852,15 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
       lookupData,
       isLoading,
       error,
-      uploadHtml,
+      previewImport,
+      applyImport,
+      restoreLookupData,
+      rollbackToSnapshot,
       clearData,
       addTruckTrailerPair,
       lookupTrailerByTruck,
       lookupTruckByTrailer,
+      findLookupMatches,
       lastUpdated,
       dataCount: lookupData.length,
       forceRefresh,
@@ -642,11 +869,15 @@ export function LookupProvider({ children }: { children: React.ReactNode }) {
       lookupData,
       isLoading,
       error,
-      uploadHtml,
+      previewImport,
+      applyImport,
+      restoreLookupData,
+      rollbackToSnapshot,
       clearData,
       addTruckTrailerPair,
       lookupTrailerByTruck,
       lookupTruckByTrailer,
+      findLookupMatches,
       lastUpdated,
       forceRefresh,
     ],
@@ -0,0 +1,278 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useEffect, useCallback, useMemo, useRef } from "react"
+import { supabase, type LookupSnapshotRow } from "@/lib/supabase"
+import { createId } from "@/lib/utils"
+import { useSupabaseSync } from "./supabase-sync-context"
+import { useSite } from "./site-context"
+import { scopedStorageKey } from "@/lib/sites"
+import { useSyncedLog } from "@/hooks/use-synced-log"
+import type { TruckTrailerMapping } from "@/utils/html-parser"
+
+// What changed the lookup data; "baseline" is the data found before the first snapshot was taken
+export type LookupSnapshotSource = "baseline" | "import" | "manual" | "clear" | "restore" | "rollback"
+
+// The lookup data as it was after one change
+export interface LookupSnapshot {
+  id: string
+  // Increases by one per change, per site. Supabase assigns it on upload; until then it is this device's guess
+  version: number
+  source: LookupSnapshotSource
+  fileName: string | null
+  // e.g. the pair that was added by hand, or the version that was rolled back to
+  note?: string
+  rowCount: number
+  entries: TruckTrailerMapping[]
+  timestamp: string
+  // Device that made the change
+  syncId: string
+  synced?: boolean
+}
+
+export interface LookupChangeDetails {
+  source: LookupSnapshotSource
+  fileName?: string | null
+  note?: string
+}
+
+interface LookupSnapshotContextType {
+  snapshots: LookupSnapshot[]
+  recordSnapshot: (
+    entries: TruckTrailerMapping[],
+    details: LookupChangeDetails,
+    previous: TruckTrailerMapping[],
+  ) => void
+  loadSnapshots: () => Promise<LookupSnapshot[]>
+}
+
+const defaultContextValue: LookupSnapshotContextType = {
+  snapshots: [],
+  recordSnapshot: () => {},
+  loadSnapshots: async () => [],
+}
+
+// Every snapshot holds the full data, so only the latest ones are kept locally; Supabase keeps them all
+const MAX_LOCAL_SNAPSHOTS = 20
+
+const toLookupSnapshotRow = (snapshot: LookupSnapshot, siteId: string): LookupSnapshotRow => ({
+  id: snapshot.id,
+  site_id: siteId,
+  version: snapshot.version,
+  sync_id: snapshot.syncId,
+  source: snapshot.source,
+  file_name: snapshot.fileName,
+  note: snapshot.note || null,
+  row_count: snapshot.rowCount,
+  entries: snapshot.entries,
+  created_at: snapshot.timestamp,
+})
+
+const fromLookupSnapshotRow = (row: LookupSnapshotRow): LookupSnapshot => ({
+  id: row.id,
+  version: row.version,
+  source: row.source as LookupSnapshotSource,
+  fileName: row.file_name,
+  note: row.note || undefined,
+  rowCount: row.row_count,
+  entries: Array.isArray(row.entries) ? (row.entries as TruckTrailerMapping[]) : [],
+  timestamp: new Date(row.created_at).toISOString(),
+  syncId: row.sync_id || "",
+  synced: true,
+})
+
+// Store snapshots and read back the versions Supabase gave them - also for rows an earlier upload already stored
+async function uploadSnapshots(
+  client: NonNullable<typeof supabase>,
+  snapshots: LookupSnapshot[],
+  siteId: string,
+): Promise<Map<string, Partial<LookupSnapshot>>> {
+  const rows = snapshots.map((snapshot) => toLookupSnapshotRow(snapshot, siteId))
+  const { error } = await client.from("lookup_snapshots").upsert(rows, { onConflict: "id", ignoreDuplicates: true })
+  if (error) {
+    throw error
+  }
+
+  const { data, error: readError } = await client
+    .from("lookup_snapshots")
+    .select("id, version")
+    .in("id", snapshots.map((snapshot) => snapshot.id))
+  if (readError) {
+    throw readError
+  }
+  return new Map(
+    ((data || []) as Pick<LookupSnapshotRow, "id" | "version">[]).map((row) => [row.id, { version: row.version }]),
+  )
+}
+
+const LookupSnapshotContext = createContext<LookupSnapshotContextType>(defaultContextValue)
+
+export function LookupSnapshotProvider({ children }: { children: React.ReactNode }) {
+  // Highest version known on any device, for the guessed version of a snapshot that is not uploaded yet
+  const latestVersion = useRef(0)
+
+  const { syncId, isSupabaseAvailable, connectionStatus } = useSupabaseSync()
+  const { activeSite } = useSite()
+  const siteId = activeSite.id
+  const isConnected = isSupabaseAvailable && connectionStatus === "connected" && supabase !== null
+
+  const uploadLocalSnapshots = useCallback(
+    async (unsynced: LookupSnapshot[]) => {
+      if (!supabase) {
+        throw new Error("Supabase is not configured")
+      }
+      return uploadSnapshots(supabase, unsynced, siteId)
+    },
+    [siteId],
+  )
+
+  // Snapshots taken while offline are pushed once Supabase is reachable, and take the version Supabase gave them
+  const {
+    entries: snapshots,
+    updateEntries,
+    appendEntries,
+  } = useSyncedLog<LookupSnapshot>({
+    storageKey: scopedStorageKey("lookupSnapshots", siteId),
+    maxEntries: MAX_LOCAL_SNAPSHOTS,
+    label: "lookup snapshots",
+    isConnected,
+    upload: uploadLocalSnapshots,
+  })
+
+  useEffect(() => {
+    latestVersion.current = snapshots.reduce((max, snapshot) => Math.max(max, snapshot.version), latestVersion.current)
+  }, [snapshots])
+
+  // Pick up the latest version number from other devices
+  useEffect(() => {
+    if (!isConnected || !supabase) return
+
+    supabase
+      .from("lookup_snapshots")
+      .select("version")
+      .eq("site_id", siteId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("❌ Failed to load the latest lookup version:", error)
+          return
+        }
+        const remoteVersion = (data?.[0] as { version: number } | undefined)?.version || 0
+        latestVersion.current = Math.max(latestVersion.current, remoteVersion)
+      })
+  }, [isConnected, siteId])
+
+  // Follow versions recorded on other devices (and the numbers given to our own)
+  useEffect(() => {
+    if (!isConnected || !supabase) return
+    const client = supabase
+
+    const channel = client
+      .channel(`lookup_snapshots_${siteId}_${Date.now()}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "lookup_snapshots", filter: `site_id=eq.${siteId}` },
+        (payload) => {
+          const snapshot = fromLookupSnapshotRow(payload.new as LookupSnapshotRow)
+          latestVersion.current = Math.max(latestVersion.current, snapshot.version)
+          updateEntries((prev) =>
+            [...prev.filter((existing) => existing.id !== snapshot.id), snapshot].sort((a, b) => a.version - b.version),
+          )
+        },
+      )
+      .subscribe()
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }, [isConnected, siteId, updateEntries])
+
+  const recordSnapshot = useCallback(
+    (entries: TruckTrailerMapping[], details: LookupChangeDetails, previous: TruckTrailerMapping[]) => {
+      const createSnapshot = (
+        snapshotEntries: TruckTrailerMapping[],
+        { source, fileName, note }: LookupChangeDetails,
+      ): LookupSnapshot => {
+        latestVersion.current += 1
+        return {
+          id: createId(),
+          version: latestVersion.current,
+          source,
+          fileName: fileName || null,
+          note,
+          rowCount: snapshotEntries.length,
+          entries: snapshotEntries.map(({ truck, trailer, row }) => ({ truck, trailer, row })),
+          timestamp: new Date().toISOString(),
+          syncId,
+          synced: false,
+        }
+      }
+
+      // The data from before versioning started is kept as well, so the first change can be rolled back
+      const newSnapshots: LookupSnapshot[] = []
+      if (latestVersion.current === 0 && previous.length > 0) {
+        newSnapshots.push(createSnapshot(previous, { source: "baseline" }))
+      }
+      newSnapshots.push(createSnapshot(entries, details))
+
+      appendEntries(newSnapshots)
+
+      console.log(`🗂️ Lookup version ${latestVersion.current}: ${details.source} (${entries.length} rows)`)
+    },
+    [syncId, appendEntries],
+  )
+
+  // All versions, newest first - from all devices when connected
+  const loadSnapshots = useCallback(async (): Promise<LookupSnapshot[]> => {
+    const merged = new Map<string, LookupSnapshot>()
+    for (const snapshot of snapshots) {
+      merged.set(snapshot.id, snapshot)
+    }
+
+    if (isConnected && supabase) {
+      try {
+        const { data, error } = await supabase
+          .from("lookup_snapshots")
+          .select("*")
+          .eq("site_id", siteId)
+          .order("version", { ascending: false })
+          .limit(100)
+
+        if (error) {
+          throw error
+        }
+
+        for (const row of (data || []) as LookupSnapshotRow[]) {
+          merged.set(row.id, fromLookupSnapshotRow(row))
+          latestVersion.current = Math.max(latestVersion.current, row.version)
+        }
+      } catch (error) {
+        console.error("❌ Failed to load lookup snapshots:", error)
+      }
+    }
+
+    return Array.from(merged.values()).sort(
+      (a, b) => b.version - a.version || b.timestamp.localeCompare(a.timestamp),
+    )
+  }, [snapshots, isConnected, siteId])
+
+  const contextValue = useMemo(
+    () => ({
+      snapshots,
+      recordSnapshot,
+      loadSnapshots,
+    }),
+    [snapshots, recordSnapshot, loadSnapshots],
+  )
+
+  return <LookupSnapshotContext.Provider value={contextValue}>{children}</LookupSnapshotContext.Provider>
+}
+
+export function useLookupSnapshots() {
+  const context = useContext(LookupSnapshotContext)
+  if (!context) {
+    throw new Error("useLookupSnapshots must be used within a LookupSnapshotProvider")
+  }
+  return context
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useCallback, useMemo } from "react"
+import { supabase, type RampEventRow } from "@/lib/supabase"
+import { createId } from "@/lib/utils"
+import { useSupabaseSync } from "./supabase-sync-context"
+import { useSite } from "./site-context"
+import { scopedStorageKey } from "@/lib/sites"
+import { useSyncedLog } from "@/hooks/use-synced-log"
+import type { RampStatus } from "@/components/warehouse-visualization"
+
+export type RampState = "free" | "occupied" | "defect"
+
+// One entry of the append-only ramp history
+export interface RampEvent {
+  id: string
+  rampNumber: number
+  previousState: RampState
+  nextState: RampState
+  truck: string
+  trailer: string
+  timestamp: string
+  syncId: string
+  // Extra context, e.g. the defect reason when a defect is reported or resolved
+  detail?: string
+  synced?: boolean
+}
+
+export type NewRampEvent = Omit<RampEvent, "id" | "timestamp" | "syncId" | "synced">
+
+interface RampHistoryContextType {
+  events: RampEvent[]
+  recordRampEvent: (event: NewRampEvent) => void
+  loadRampHistory: (rampNumber: number) => Promise<RampEvent[]>
+}
+
+const defaultContextValue: RampHistoryContextType = {
+  events: [],
+  recordRampEvent: () => {},
+  loadRampHistory: async () => [],
+}
+
+// Keep the local copy bounded; the full history lives in Supabase
+const MAX_LOCAL_EVENTS = 2000
+
+export const getRampState = (status: RampStatus | undefined): RampState => {
+  if (!status) return "free"
+  if (status.yellow) return "defect"
+  if (status.active || status.red) return "occupied"
+  return "free"
+}
+
+const toRampEventRow = (event: RampEvent, siteId: string): RampEventRow => ({
+  id: event.id,
+  site_id: siteId,
+  ramp_number: event.rampNumber,
+  previous_state: event.previousState,
+  next_state: event.nextState,
+  truck: event.truck,
+  trailer: event.trailer,
+  sync_id: event.syncId,
+  detail: event.detail || null,
+  created_at: event.timestamp,
+})
+
+const fromRampEventRow = (row: RampEventRow): RampEvent => ({
+  id: row.id,
+  rampNumber: row.ramp_number,
+  previousState: row.previous_state as RampState,
+  nextState: row.next_state as RampState,
+  truck: row.truck || "",
+  trailer: row.trailer || "",
+  timestamp: new Date(row.created_at).toISOString(),
+  syncId: row.sync_id || "",
+  detail: row.detail || undefined,
+  synced: true,
+})
+
+const RampHistoryContext = createContext<RampHistoryContextType>(defaultContextValue)
+
+export function RampHistoryProvider({ children }: { children: React.ReactNode }) {
+  const { syncId, isSupabaseAvailable, connectionStatus } = useSupabaseSync()
+  const { activeSite } = useSite()
+  const siteId = activeSite.id
+  const isConnected = isSupabaseAvailable && connectionStatus === "connected" && supabase !== null
+
+  const uploadEvents = useCallback(
+    async (unsynced: RampEvent[]) => {
+      if (!supabase) {
+        throw new Error("Supabase is not configured")
+      }
+      const rows = unsynced.map((event) => toRampEventRow(event, siteId))
+      const { error } = await supabase.from("ramp_events").upsert(rows, { onConflict: "id", ignoreDuplicates: true })
+      if (error) {
+        throw error
+      }
+    },
+    [siteId],
+  )
+
+  // Events recorded while offline are pushed once Supabase is reachable
+  const { entries: events, appendEntries } = useSyncedLog<RampEvent>({
+    storageKey: scopedStorageKey("rampEventLog", siteId),
+    maxEntries: MAX_LOCAL_EVENTS,
+    label: "ramp events",
+    isConnected,
+    upload: uploadEvents,
+  })
+
+  const recordRampEvent = useCallback(
+    (newEvent: NewRampEvent) => {
+      const event: RampEvent = {
+        ...newEvent,
+        id: createId(),
+        timestamp: new Date().toISOString(),
+        syncId,
+        synced: false,
+      }
+
+      appendEntries([event])
+
+      console.log(
+        `📝 Ramp ${event.rampNumber}: ${event.previousState} → ${event.nextState} (${event.truck} ${event.trailer})`,
+      )
+    },
+    [syncId, appendEntries],
+  )
+
+  // History of one ramp, newest first - from all devices when connected
+  const loadRampHistory = useCallback(
+    async (rampNumber: number): Promise<RampEvent[]> => {
+      const merged = new Map<string, RampEvent>()
+      for (const event of events) {
+        if (event.rampNumber === rampNumber) {
+          merged.set(event.id, event)
+        }
+      }
+
+      if (isConnected && supabase) {
+        try {
+          const { data, error } = await supabase
+            .from("ramp_events")
+            .select("*")
+            .eq("site_id", siteId)
+            .eq("ramp_number", rampNumber)
+            .order("created_at", { ascending: false })
+            .limit(500)
+
+          if (error) {
+            throw error
+          }
+
+          for (const row of (data || []) as RampEventRow[]) {
+            merged.set(row.id, fromRampEventRow(row))
+          }
+        } catch (error) {
+          console.error(`❌ Failed to load history for ramp ${rampNumber}:`, error)
+        }
+      }
+
+      return Array.from(merged.values()).sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    },
+    [events, isConnected, siteId],
+  )
+
+  const contextValue = useMemo(
+    () => ({
+      events,
+      recordRampEvent,
+      loadRampHistory,
+    }),
+    [events, recordRampEvent, loadRampHistory],
+  )
+
+  return <RampHistoryContext.Provider value={contextValue}>{children}</RampHistoryContext.Provider>
+}
+
+export function useRampHistory() {
+  const context = useContext(RampHistoryContext)
+  if (!context) {
+    throw new Error("useRampHistory must be used within a RampHistoryProvider")
+  }
+  return context
+}
@@ -0,0 +1,253 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { supabase, type ReservationRow } from "@/lib/supabase"
+import { createId } from "@/lib/utils"
+import { scopedStorageKey } from "@/lib/sites"
+import {
+  RESERVATION_RETENTION_MS,
+  validateReservation,
+  type NewReservation,
+  type Reservation,
+  type ReservationStatus,
+} from "@/lib/reservations"
+import { useSupabaseSync } from "./supabase-sync-context"
+import { useSite } from "./site-context"
+
+interface ReservationContextType {
+  reservations: Reservation[]
+  addReservation: (reservation: NewReservation) => Promise<Reservation>
+  setReservationStatus: (id: string, status: ReservationStatus) => void
+}
+
+const defaultContextValue: ReservationContextType = {
+  reservations: [],
+  addReservation: async () => {
+    throw new Error("ReservationProvider is missing")
+  },
+  setReservationStatus: () => {},
+}
+
+// How often scheduled reservations are checked for expiry
+const EXPIRY_CHECK_INTERVAL = 30000
+
+const toReservationRow = (reservation: Reservation, siteId: string): ReservationRow => ({
+  id: reservation.id,
+  site_id: siteId,
+  ramp_number: reservation.rampNumber,
+  truck: reservation.truck,
+  trailer: reservation.trailer,
+  window_start: reservation.windowStart,
+  window_end: reservation.windowEnd,
+  notes: reservation.notes,
+  status: reservation.status,
+  created_at: reservation.createdAt,
+})
+
+const fromReservationRow = (row: ReservationRow): Reservation => ({
+  id: row.id,
+  rampNumber: row.ramp_number,
+  truck: row.truck || "",
+  trailer: row.trailer || "",
+  windowStart: new Date(row.window_start).toISOString(),
+  windowEnd: new Date(row.window_end).toISOString(),
+  notes: row.notes || "",
+  status: row.status as ReservationStatus,
+  createdAt: new Date(row.created_at).toISOString(),
+})
+
+// Drop finished reservations past the retention period
+const pruneReservations = (reservations: Reservation[]) => {
+  const cutoff = Date.now() - RESERVATION_RETENTION_MS
+  return reservations.filter(
+    (reservation) => reservation.status === "scheduled" || new Date(reservation.windowEnd).getTime() > cutoff,
+  )
+}
+
+const ReservationContext = createContext<ReservationContextType>(defaultContextValue)
+
+export function ReservationProvider({ children }: { children: React.ReactNode }) {
+  const isInitialized = useRef(false)
+  const remoteLoadDone = useRef(false)
+  const [reservations, setReservations] = useState<Reservation[]>([])
+
+  const { isSupabaseAvailable, connectionStatus } = useSupabaseSync()
+  const { activeSite } = useSite()
+  const siteId = activeSite.id
+  const reservationsStorageKey = scopedStorageKey("rampReservations", siteId)
+  const isConnected = isSupabaseAvailable && connectionStatus === "connected" && supabase !== null
+
+  const saveReservations = useCallback(
+    (nextReservations: Reservation[]) => {
+      try {
+        localStorage.setItem(reservationsStorageKey, JSON.stringify(nextReservations))
+      } catch (e) {
+        console.error("❌ Failed to save reservations", e)
+      }
+    },
+    [reservationsStorageKey],
+  )
+
+  // Merge reservations by id (later lists win) and store the result
+  const mergeReservations = useCallback(
+    (incoming: Reservation[]) => {
+      setReservations((prev) => {
+        const merged = new Map(prev.map((reservation) => [reservation.id, reservation]))
+        for (const reservation of incoming) {
+          merged.set(reservation.id, reservation)
+        }
+        const nextReservations = pruneReservations(Array.from(merged.values()))
+        saveReservations(nextReservations)
+        return nextReservations
+      })
+    },
+    [saveReservations],
+  )
+
+  const pushReservations = useCallback(
+    async (changed: Reservation[]) => {
+      if (!isConnected || !supabase || changed.length === 0) return
+
+      const { error } = await supabase
+        .from("ramp_reservations")
+        .upsert(changed.map((reservation) => toReservationRow(reservation, siteId)), { onConflict: "id" })
+      if (error) {
+        console.error("❌ Failed to save reservations to Supabase:", error)
+      }
+    },
+    [isConnected, siteId],
+  )
+
+  // Load the local copy
+  useEffect(() => {
+    if (isInitialized.current) return
+    isInitialized.current = true
+
+    try {
+      const savedReservations = localStorage.getItem(reservationsStorageKey)
+      if (savedReservations) {
+        setReservations(pruneReservations(JSON.parse(savedReservations)))
+      }
+    } catch (e) {
+      console.error("❌ Failed to load reservations", e)
+    }
+  }, [reservationsStorageKey])
+
+  // Once connected, load the shared reservations and follow changes from other devices
+  useEffect(() => {
+    if (!isConnected || !supabase) return
+    const client = supabase
+
+    if (!remoteLoadDone.current) {
+      remoteLoadDone.current = true
+      client
+        .from("ramp_reservations")
+        .select("*")
+        .eq("site_id", siteId)
+        .gte("window_end", new Date(Date.now() - RESERVATION_RETENTION_MS).toISOString())
+        .then(({ data, error }) => {
+          if (error) {
+            console.error("❌ Failed to load reservations:", error)
+            return
+          }
+          mergeReservations(((data || []) as ReservationRow[]).map(fromReservationRow))
+          console.log(`📅 Loaded ${data?.length || 0} reservations from Supabase`)
+        })
+    }
+
+    const channel = client
+      .channel(`ramp_reservations_${siteId}_${Date.now()}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "ramp_reservations", filter: `site_id=eq.${siteId}` },
+        (payload) => {
+          const row = payload.new as ReservationRow | undefined
+          if (row?.id) {
+            mergeReservations([fromReservationRow(row)])
+          }
+        },
+      )
+      .subscribe()
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }, [isConnected, siteId, mergeReservations])
+
+  const addReservation = useCallback(
+    async (newReservation: NewReservation): Promise<Reservation> => {
+      const problem = validateReservation(newReservation, reservations)
+      if (problem) {
+        throw new Error(problem)
+      }
+
+      const reservation: Reservation = {
+        ...newReservation,
+        truck: newReservation.truck.trim(),
+        trailer: newReservation.trailer.trim(),
+        notes: newReservation.notes.trim(),
+        id: createId(),
+        status: "scheduled",
+        createdAt: new Date().toISOString(),
+      }
+
+      mergeReservations([reservation])
+      await pushReservations([reservation])
+      console.log(`📅 Reserved ramp ${reservation.rampNumber} for ${reservation.truck || reservation.trailer}`)
+      return reservation
+    },
+    [reservations, mergeReservations, pushReservations],
+  )
+
+  const setReservationStatus = useCallback(
+    (id: string, status: ReservationStatus) => {
+      const reservation = reservations.find((existing) => existing.id === id)
+      if (!reservation || reservation.status === status) return
+
+      const updated = { ...reservation, status }
+      mergeReservations([updated])
+      pushReservations([updated])
+      console.log(`📅 Reservation for ramp ${reservation.rampNumber} ${status}`)
+    },
+    [reservations, mergeReservations, pushReservations],
+  )
+
+  // Expire scheduled reservations whose window has passed
+  useEffect(() => {
+    const expireReservations = () => {
+      const now = Date.now()
+      const expired = reservations
+        .filter((reservation) => reservation.status === "scheduled" && new Date(reservation.windowEnd).getTime() < now)
+        .map((reservation) => ({ ...reservation, status: "expired" as const }))
+      if (expired.length === 0) return
+
+      mergeReservations(expired)
+      pushReservations(expired)
+      console.log(`⌛ ${expired.length} reservation(s) expired`)
+    }
+
+    expireReservations()
+    const interval = setInterval(expireReservations, EXPIRY_CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [reservations, mergeReservations, pushReservations])
+
+  const contextValue = useMemo(
+    () => ({
+      reservations,
+      addReservation,
+      setReservationStatus,
+    }),
+    [reservations, addReservation, setReservationStatus],
+  )
+
+  return <ReservationContext.Provider value={contextValue}>{children}</ReservationContext.Provider>
+}
+
+export function useReservations() {
+  const context = useContext(ReservationContext)
+  if (!context) {
+    throw new Error("useReservations must be used within a ReservationProvider")
+  }
+  return context
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { defaultSuggestionPreferences, type RampSuggestionPreferences } from "@/lib/ramp-suggestions"
+
+export interface WarehouseSettings {
+  // Trucks docked longer than this are flagged as overdue
+  dwellThresholdMinutes: number
+  // Ask before releasing a ramp that still holds truck/trailer data
+  confirmRampRelease: boolean
+  // Free ramps show as reserved this long before a reservation window starts
+  reservationLeadMinutes: number
+  // How free ramps are ranked when suggesting one for an arriving truck
+  rampSuggestions: RampSuggestionPreferences
+}
+
+export const defaultSettings: WarehouseSettings = {
+  dwellThresholdMinutes: 120,
+  confirmRampRelease: true,
+  reservationLeadMinutes: 60,
+  rampSuggestions: defaultSuggestionPreferences,
+}
+
+interface SettingsContextType {
+  settings: WarehouseSettings
+  updateSettings: (changes: Partial<WarehouseSettings>) => void
+  resetSettings: () => void
+}
+
+const defaultContextValue: SettingsContextType = {
+  settings: defaultSettings,
+  updateSettings: () => {},
+  resetSettings: () => {},
+}
+
+const SettingsContext = createContext<SettingsContextType>(defaultContextValue)
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const isInitialized = useRef(false)
+  const [settings, setSettings] = useState<WarehouseSettings>(defaultSettings)
+
+  // Load saved settings, filling in defaults for anything added since they were saved
+  useEffect(() => {
+    if (isInitialized.current) return
+    isInitialized.current = true
+
+    try {
+      const savedSettings = localStorage.getItem("warehouseSettings")
+      if (savedSettings) {
+        setSettings({ ...defaultSettings, ...JSON.parse(savedSettings) })
+      }
+    } catch (e) {
+      console.error("❌ Failed to load settings", e)
+    }
+  }, [])
+
+  const saveSettings = useCallback((nextSettings: WarehouseSettings) => {
+    try {
+      localStorage.setItem("warehouseSettings", JSON.stringify(nextSettings))
+    } catch (e) {
+      console.error("❌ Failed to save settings", e)
+    }
+  }, [])
+
+  const updateSettings = useCallback(
+    (changes: Partial<WarehouseSettings>) => {
+      setSettings((prev) => {
+        const nextSettings = { ...prev, ...changes }
+        saveSettings(nextSettings)
+        return nextSettings
+      })
+    },
+    [saveSettings],
+  )
+
+  const resetSettings = useCallback(() => {
+    setSettings(defaultSettings)
+    saveSettings(defaultSettings)
+  }, [saveSettings])
+
+  const contextValue = useMemo(
+    () => ({
+      settings,
+      updateSettings,
+      resetSettings,
+    }),
+    [settings, updateSettings, resetSettings],
+  )
+
+  return <SettingsContext.Provider value={contextValue}>{children}</SettingsContext.Provider>
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext)
+  if (!context) {
+    throw new Error("useSettings must be used within a SettingsProvider")
+  }
+  return context
+}
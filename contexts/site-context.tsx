@@ -0,0 +1,166 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { supabase, hasSupabaseCredentials, type SiteRow } from "@/lib/supabase"
+import { DEFAULT_SITE, createSiteId, type Site } from "@/lib/sites"
+
+interface SiteContextType {
+  sites: Site[]
+  activeSite: Site
+  isReady: boolean
+  switchSite: (siteId: string) => void
+  addSite: (name: string) => Promise<Site>
+  // Add sites from a workspace backup that this device does not know yet
+  restoreSites: (sites: Site[]) => void
+}
+
+const defaultContextValue: SiteContextType = {
+  sites: [DEFAULT_SITE],
+  activeSite: DEFAULT_SITE,
+  isReady: false,
+  switchSite: () => {},
+  addSite: async () => DEFAULT_SITE,
+  restoreSites: () => {},
+}
+
+const SiteContext = createContext<SiteContextType>(defaultContextValue)
+
+// Merge site lists by id, keeping the default site first
+const mergeSites = (...lists: Site[][]): Site[] => {
+  const merged = new Map<string, Site>([[DEFAULT_SITE.id, DEFAULT_SITE]])
+  for (const list of lists) {
+    for (const site of list) {
+      if (site?.id && site?.name) merged.set(site.id, { id: site.id, name: site.name })
+    }
+  }
+  return Array.from(merged.values())
+}
+
+export function SiteProvider({ children }: { children: React.ReactNode }) {
+  const isInitialized = useRef(false)
+  const [sites, setSites] = useState<Site[]>([DEFAULT_SITE])
+  const [activeSiteId, setActiveSiteId] = useState(DEFAULT_SITE.id)
+  const [isReady, setIsReady] = useState(false)
+
+  const saveSites = useCallback((nextSites: Site[]) => {
+    try {
+      localStorage.setItem("warehouseSites", JSON.stringify(nextSites))
+    } catch (e) {
+      console.error("❌ Failed to save sites", e)
+    }
+  }, [])
+
+  // Load the known sites and the site this device was last using
+  useEffect(() => {
+    if (isInitialized.current) return
+    isInitialized.current = true
+
+    let localSites: Site[] = []
+    try {
+      const savedSites = localStorage.getItem("warehouseSites")
+      if (savedSites) {
+        localSites = JSON.parse(savedSites)
+      }
+    } catch (e) {
+      console.error("❌ Failed to load sites", e)
+    }
+
+    const knownSites = mergeSites(localSites)
+    const savedActiveSite = localStorage.getItem("warehouseActiveSite")
+    setSites(knownSites)
+    setActiveSiteId(knownSites.some((site) => site.id === savedActiveSite) ? (savedActiveSite as string) : DEFAULT_SITE.id)
+    setIsReady(true)
+
+    // Pick up sites created on other devices
+    if (hasSupabaseCredentials && supabase) {
+      supabase
+        .from("sites")
+        .select("id, name")
+        .order("created_at", { ascending: true })
+        .then(({ data, error }) => {
+          if (error) {
+            console.warn("Could not load sites from Supabase:", error.message)
+            return
+          }
+          setSites((prev) => {
+            const nextSites = mergeSites(prev, (data || []) as Pick<SiteRow, "id" | "name">[])
+            saveSites(nextSites)
+            return nextSites
+          })
+        })
+    }
+  }, [saveSites])
+
+  const switchSite = useCallback((siteId: string) => {
+    setActiveSiteId(siteId)
+    localStorage.setItem("warehouseActiveSite", siteId)
+    console.log(`🏭 Switched to site ${siteId}`)
+  }, [])
+
+  const addSite = useCallback(
+    async (name: string): Promise<Site> => {
+      const trimmedName = name.trim()
+      if (!trimmedName) {
+        throw new Error("Site name is required")
+      }
+
+      const site: Site = { id: createSiteId(trimmedName), name: trimmedName }
+      if (sites.some((existing) => existing.id === site.id)) {
+        throw new Error(`Site "${trimmedName}" already exists`)
+      }
+
+      const nextSites = [...sites, site]
+      setSites(nextSites)
+      saveSites(nextSites)
+
+      if (hasSupabaseCredentials && supabase) {
+        const { error } = await supabase.from("sites").insert({ id: site.id, name: site.name })
+        if (error) {
+          console.warn("Site saved locally, but not in Supabase:", error.message)
+        }
+      }
+
+      return site
+    },
+    [sites, saveSites],
+  )
+
+  const restoreSites = useCallback(
+    (restoredSites: Site[]) => {
+      setSites((prev) => {
+        const nextSites = mergeSites(prev, restoredSites)
+        saveSites(nextSites)
+        return nextSites
+      })
+    },
+    [saveSites],
+  )
+
+  const activeSite = useMemo(
+    () => sites.find((site) => site.id === activeSiteId) || DEFAULT_SITE,
+    [sites, activeSiteId],
+  )
+
+  const contextValue = useMemo(
+    () => ({
+      sites,
+      activeSite,
+      isReady,
+      switchSite,
+      addSite,
+      restoreSites,
+    }),
+    [sites, activeSite, isReady, switchSite, addSite, restoreSites],
+  )
+
+  return <SiteContext.Provider value={contextValue}>{children}</SiteContext.Provider>
+}
+
+export function useSite() {
+  const context = useContext(SiteContext)
+  if (!context) {
+    throw new Error("useSite must be used within a SiteProvider")
+  }
+  return context
+}
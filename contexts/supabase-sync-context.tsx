@@ -2,8 +2,43 @@
 
 import type React from "react"
 import { createContext, useContext, useState, useEffect, useCallback, useRef } from "react"
-import { supabase, hasSupabaseCredentials } from "@/lib/supabase"
+import { supabase, hasSupabaseCredentials, type WarehouseStatusRow, type WarehouseLookupRow } from "@/lib/supabase"
 import type { RampStatus } from "@/components/warehouse-visualization"
+import type { TruckTrailerMapping } from "@/utils/html-parser"
+import { diffLookupData, hasLookupChanges } from "@/utils/lookup-diff"
+import { parseDefect } from "@/lib/ramp-defects"
+import { scopedStorageKey } from "@/lib/sites"
+import { useSite } from "./site-context"
+
+// Columns of a ramp_status row that describe the ramp itself (no bookkeeping columns)
+type RampStatusFields = Omit<WarehouseStatusRow, "id" | "site_id" | "updated_at" | "updated_by">
+
+const toRampStatusFields = (rampNumber: number, status: RampStatus): RampStatusFields => ({
+  ramp_number: rampNumber,
+  active: Boolean(status.active),
+  red: Boolean(status.red),
+  yellow: Boolean(status.yellow),
+  input_value: status.inputValue || "",
+  truck_value: status.truckValue || "",
+  trailer_value: status.trailerValue || "",
+  has_truck: Boolean(status.hasTruck),
+  is_exiting: Boolean(status.isExiting),
+  occupied_since: status.occupiedSince || null,
+  defect: status.defect || null,
+})
+
+const fromRampStatusRow = (row: WarehouseStatusRow): RampStatus => ({
+  active: Boolean(row.active),
+  red: Boolean(row.red),
+  yellow: Boolean(row.yellow),
+  inputValue: row.input_value || "",
+  truckValue: row.truck_value || "",
+  trailerValue: row.trailer_value || "",
+  hasTruck: Boolean(row.has_truck),
+  isExiting: Boolean(row.is_exiting),
+  occupiedSince: row.occupied_since ? new Date(row.occupied_since).toISOString() : null,
+  defect: parseDefect(row.defect),
+})
 
 interface SupabaseSyncContextType {
   syncId: string
@@ -13,6 +48,7 @@ interface SupabaseSyncContextType {
   lastSynced: Date | null
   syncLookupData: (data: any[]) => Promise<void>
   syncRampStatus: (status: Record<number, RampStatus>) => Promise<void>
+  fetchRampStatus: () => Promise<Record<number, RampStatus> | null>
   isSupabaseAvailable: boolean
   isInitializing: boolean
   connectionStatus: "connected" | "disconnected" | "connecting"
@@ -26,6 +62,7 @@ const defaultContextValue: SupabaseSyncContextType = {
   lastSynced: null,
   syncLookupData: async () => {},
   syncRampStatus: async () => {},
+  fetchRampStatus: async () => null,
   isSupabaseAvailable: false,
   isInitializing: true,
   connectionStatus: "connecting",
@@ -38,11 +75,23 @@ export function SupabaseSyncProvider({ children }: { children: React.ReactNode }
   const connectionRetries = useRef<number>(0)
   const maxConnectionRetries = 3
   const channelsRef = useRef<{
-    lookupChannel: ReturnType<typeof supabase.channel> | null
+    lookupChannel: ReturnType<NonNullable<typeof supabase>["channel"]> | null
+    rampChannel: ReturnType<NonNullable<typeof supabase>["channel"]> | null
   }>({
     lookupChannel: null,
+    rampChannel: null,
   })
 
+  // Last ramp values known to be on the server (serialized) and their updated_at, per ramp
+  const syncedRampsRef = useRef<Record<number, string>>({})
+  const rampUpdatedAtRef = useRef<Record<number, string>>({})
+  // Ramps with a write of ours in flight, and the newest remote row that arrived meanwhile
+  const pendingRampWritesRef = useRef<Record<number, number>>({})
+  const heldRemoteRampsRef = useRef<Record<number, WarehouseStatusRow>>({})
+  // Ramp writes are held back until the server state has been loaded once
+  const rampStatusHydrated = useRef(false)
+  const syncIdRef = useRef("")
+
   const [syncId, setSyncId] = useState<string>("")
   const [isSyncing, setIsSyncing] = useState<boolean>(false)
   const [syncError, setSyncError] = useState<string | null>(null)
@@ -53,7 +102,15 @@ export function SupabaseSyncProvider({ children }: { children: React.ReactNode }
 
   const supabaseConfigured = hasSupabaseCredentials && supabase !== null
 
-  // Cleanup function for channels (only lookup channel now)
+  // Everything below is scoped to the active site; the provider is remounted when it changes
+  const { activeSite } = useSite()
+  const siteId = activeSite.id
+
+  useEffect(() => {
+    syncIdRef.current = syncId
+  }, [syncId])
+
+  // Cleanup function for channels
   const cleanupChannels = useCallback(() => {
     if (!supabase) return
     try {
@@ -61,6 +118,10 @@ export function SupabaseSyncProvider({ children }: { children: React.ReactNode }
         supabase.removeChannel(channelsRef.current.lookupChannel)
         channelsRef.current.lookupChannel = null
       }
+      if (channelsRef.current.rampChannel) {
+        supabase.removeChannel(channelsRef.current.rampChannel)
+        channelsRef.current.rampChannel = null
+      }
     } catch (error) {
       console.error("Error cleaning up channels:", error)
     }
@@ -108,24 +169,71 @@ export function SupabaseSyncProvider({ children }: { children: React.ReactNode }
     [supabaseConfigured],
   )
 
-  // Set up real-time subscriptions ONLY for lookup data
+  // Take a ramp_status row as the server state of its ramp and show it
+  const applyRampRow = useCallback((row: WarehouseStatusRow) => {
+    const status = fromRampStatusRow(row)
+    rampUpdatedAtRef.current[row.ramp_number] = row.updated_at
+    syncedRampsRef.current[row.ramp_number] = JSON.stringify(toRampStatusFields(row.ramp_number, status))
+
+    window.dispatchEvent(
+      new CustomEvent("rampStatusUpdated", {
+        detail: {
+          rampNumber: row.ramp_number,
+          status,
+          updatedAt: row.updated_at,
+          updatedBy: row.updated_by || "",
+          timestamp: new Date(),
+        },
+      }),
+    )
+  }, [])
+
+  // Apply a ramp_status change from another device, ignoring anything not newer than what we know.
+  // While a write of ours is in flight the change is held back; the write's result decides which one is newer
+  const handleRemoteRampChange = useCallback(
+    (row: WarehouseStatusRow | undefined) => {
+      if (!row || typeof row.ramp_number !== "number") return
+
+      const knownUpdatedAt = rampUpdatedAtRef.current[row.ramp_number]
+      if (knownUpdatedAt && new Date(row.updated_at).getTime() <= new Date(knownUpdatedAt).getTime()) {
+        return
+      }
+
+      if (pendingRampWritesRef.current[row.ramp_number]) {
+        const held = heldRemoteRampsRef.current[row.ramp_number]
+        if (!held || new Date(row.updated_at).getTime() > new Date(held.updated_at).getTime()) {
+          heldRemoteRampsRef.current[row.ramp_number] = row
+        }
+        return
+      }
+
+      applyRampRow(row)
+    },
+    [applyRampRow],
+  )
+
+  // Set up real-time subscriptions for lookup data and ramp status
   const setupRealtimeSubscriptions = useCallback(() => {
     if (!supabase) return
 
     cleanupChannels()
 
     try {
-      const lookupChannelName = `lookup_data_${Date.now()}`
+      const lookupChannelName = `lookup_data_${siteId}_${Date.now()}`
 
       channelsRef.current.lookupChannel = supabase
         .channel(lookupChannelName)
-        .on("postgres_changes", { event: "*", schema: "public", table: "lookup_data" }, (payload) => {
-          window.dispatchEvent(
-            new CustomEvent("lookupDataUpdated", {
-              detail: { payload, timestamp: new Date() },
-            }),
-          )
-        })
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "lookup_data", filter: `site_id=eq.${siteId}` },
+          (payload) => {
+            window.dispatchEvent(
+              new CustomEvent("lookupDataUpdated", {
+                detail: { payload, timestamp: new Date() },
+              }),
+            )
+          },
+        )
         .subscribe((status, err) => {
           if (err) {
             console.error("Channel error:", err)
@@ -139,12 +247,28 @@ export function SupabaseSyncProvider({ children }: { children: React.ReactNode }
             setConnectionStatus("disconnected")
           }
         })
+
+      channelsRef.current.rampChannel = supabase
+        .channel(`ramp_status_${siteId}_${Date.now()}`)
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "ramp_status", filter: `site_id=eq.${siteId}` },
+          (payload) => {
+            handleRemoteRampChange(payload.new as WarehouseStatusRow | undefined)
+          },
+        )
+        .subscribe((status, err) => {
+          if (err) {
+            console.error("Ramp channel error:", err)
+            setSyncError(`Ramp channel error: ${err.message}`)
+          }
+        })
     } catch (error: any) {
       console.error("Error setting up subscriptions:", error)
       setSyncError(`Failed to set up real-time subscriptions: ${error?.message}`)
       setConnectionStatus("disconnected")
     }
-  }, [cleanupChannels])
+  }, [cleanupChannels, handleRemoteRampChange, siteId])
 
   // Initialize Supabase connection
   useEffect(() => {
@@ -208,8 +332,8 @@ export function SupabaseSyncProvider({ children }: { children: React.ReactNode }
   const syncLookupData = useCallback(
     async (data: any[]) => {
       // Always save to localStorage first
-      localStorage.setItem("truckTrailerLookup", JSON.stringify(data))
-      localStorage.setItem("lookupLastUpdated", new Date().toISOString())
+      localStorage.setItem(scopedStorageKey("truckTrailerLookup", siteId), JSON.stringify(data))
+      localStorage.setItem(scopedStorageKey("lookupLastUpdated", siteId), new Date().toISOString())
 
       if (!isSupabaseAvailable || connectionStatus !== "connected" || !supabase) {
         console.log("Saved to localStorage (Supabase not available)")
@@ -220,38 +344,60 @@ export function SupabaseSyncProvider({ children }: { children: React.ReactNode }
       setSyncError(null)
 
       try {
-        // Delete existing data
-        const { error: deleteError } = await supabase
+        // Diff against what the server has right now
+        const { data: serverRows, error: fetchError } = await supabase
           .from("lookup_data")
-          .delete()
-          .neq("id", "00000000-0000-0000-0000-000000000000")
+          .select("truck, trailer, row_number")
+          .eq("site_id", siteId)
 
-        if (deleteError) {
-          console.warn("Could not clear existing data:", deleteError.message)
+        if (fetchError) {
+          throw fetchError
         }
 
-        // Insert new data
-        const lookupRows = data.map((item, index) => ({
+        const serverData: TruckTrailerMapping[] = ((serverRows || []) as Pick<
+          WarehouseLookupRow,
+          "truck" | "trailer" | "row_number"
+        >[]).map((row) => ({
+          truck: row.truck || "",
+          trailer: row.trailer || "",
+          row: row.row_number,
+        }))
+
+        const localData: TruckTrailerMapping[] = data.map((item, index) => ({
           truck: item.truck || "",
           trailer: item.trailer || "",
-          row_number: item.row || index + 1,
+          row: item.row || index + 1,
         }))
 
-        if (lookupRows.length > 0) {
-          const batchSize = 50
-          for (let i = 0; i < lookupRows.length; i += batchSize) {
-            const batch = lookupRows.slice(i, i + batchSize)
-            const { error } = await supabase.from("lookup_data").insert(batch)
+        const diff = diffLookupData(serverData, localData)
 
-            if (error) {
-              throw error
-            }
+        if (hasLookupChanges(diff)) {
+          const upserts = [...diff.added, ...diff.changed.map((change) => change.after), ...diff.reordered].map(
+            (item) => ({
+              truck: item.truck,
+              trailer: item.trailer,
+              row_number: item.row,
+            }),
+          )
+          const deletedTrucks = diff.removed.map((item) => item.truck)
+
+          // One RPC call runs in a single transaction on the server
+          const { error } = await supabase.rpc("apply_lookup_changes", {
+            target_site: siteId,
+            upserts,
+            deleted_trucks: deletedTrucks,
+          })
+
+          if (error) {
+            throw error
           }
         }
 
         const now = new Date()
         setLastSynced(now)
-        console.log(`Synced ${data.length} entries to Supabase`)
+        console.log(
+          `Synced ${data.length} entries to Supabase (+${diff.added.length} ~${diff.changed.length} -${diff.removed.length})`,
+        )
       } catch (error: any) {
         console.error("Error syncing data:", error)
         setSyncError(`Sync failed: ${error?.message}`)
@@ -259,18 +405,164 @@ export function SupabaseSyncProvider({ children }: { children: React.ReactNode }
         setIsSyncing(false)
       }
     },
-    [isSupabaseAvailable, connectionStatus],
+    [isSupabaseAvailable, connectionStatus, siteId],
   )
 
-  // Sync ramp status - LOCAL STORAGE ONLY (no Supabase)
-  const syncRampStatus = useCallback(async (status: Record<number, RampStatus>) => {
+  // Load the shared ramp status from Supabase and remember it as the synced baseline
+  const fetchRampStatus = useCallback(async (): Promise<Record<number, RampStatus> | null> => {
+    if (!isSupabaseAvailable || connectionStatus !== "connected" || !supabase) {
+      return null
+    }
+
     try {
-      localStorage.setItem("warehouseRampStatus_localOnly", JSON.stringify(status))
-      localStorage.setItem("rampStatusLastUpdated_localOnly", new Date().toISOString())
-    } catch (error) {
-      console.error("Error saving ramp status:", error)
+      const { data, error } = await supabase.from("ramp_status").select("*").eq("site_id", siteId)
+
+      if (error) {
+        throw error
+      }
+
+      const remoteStatus: Record<number, RampStatus> = {}
+      for (const row of (data || []) as WarehouseStatusRow[]) {
+        const status = fromRampStatusRow(row)
+        remoteStatus[row.ramp_number] = status
+        syncedRampsRef.current[row.ramp_number] = JSON.stringify(toRampStatusFields(row.ramp_number, status))
+        rampUpdatedAtRef.current[row.ramp_number] = row.updated_at
+      }
+
+      rampStatusHydrated.current = true
+      console.log(`Loaded ${Object.keys(remoteStatus).length} ramps from Supabase`)
+      return remoteStatus
+    } catch (error: any) {
+      console.error("Error loading ramp status:", error)
+      setSyncError(`Ramp status load failed: ${error?.message}`)
+      return null
     }
-  }, [])
+  }, [isSupabaseAvailable, connectionStatus, siteId])
+
+  // Sync ramp status - always to localStorage, and per changed ramp to Supabase when connected
+  const syncRampStatus = useCallback(
+    async (status: Record<number, RampStatus>) => {
+      try {
+        localStorage.setItem(scopedStorageKey("warehouseRampStatus_localOnly", siteId), JSON.stringify(status))
+        localStorage.setItem(scopedStorageKey("rampStatusLastUpdated_localOnly", siteId), new Date().toISOString())
+      } catch (error) {
+        console.error("Error saving ramp status:", error)
+      }
+
+      if (!isSupabaseAvailable || connectionStatus !== "connected" || !supabase) {
+        return
+      }
+
+      // Pushing before the server state is known would overwrite other devices with our defaults
+      if (!rampStatusHydrated.current) {
+        return
+      }
+
+      const changedRows: Omit<WarehouseStatusRow, "id" | "updated_at">[] = []
+      const previousSynced: Record<number, string | undefined> = {}
+      const sentValues: Record<number, string> = {}
+
+      for (const [rampKey, rampState] of Object.entries(status)) {
+        const rampNumber = Number(rampKey)
+        if (!rampState || Number.isNaN(rampNumber)) continue
+
+        const fields = toRampStatusFields(rampNumber, rampState)
+        const serialized = JSON.stringify(fields)
+        if (syncedRampsRef.current[rampNumber] === serialized) continue
+
+        // Record before sending so the same values are not pushed twice
+        previousSynced[rampNumber] = syncedRampsRef.current[rampNumber]
+        syncedRampsRef.current[rampNumber] = serialized
+        sentValues[rampNumber] = serialized
+        changedRows.push({ ...fields, site_id: siteId, updated_by: syncIdRef.current })
+      }
+
+      if (changedRows.length === 0) return
+
+      const client = supabase
+      const rampNumbers = changedRows.map((row) => row.ramp_number)
+      for (const rampNumber of rampNumbers) {
+        pendingRampWritesRef.current[rampNumber] = (pendingRampWritesRef.current[rampNumber] || 0) + 1
+      }
+
+      try {
+        // updated_at is stamped by the server; the rows that come back say what was actually stored
+        const { data, error } = await client
+          .from("ramp_status")
+          .upsert(changedRows, { onConflict: "site_id,ramp_number" })
+          .select("*")
+
+        if (error) {
+          throw error
+        }
+
+        const storedRows = new Map(((data || []) as WarehouseStatusRow[]).map((row) => [row.ramp_number, row]))
+        const missing: number[] = []
+        for (const row of changedRows) {
+          const stored = storedRows.get(row.ramp_number)
+          if (!stored) {
+            missing.push(row.ramp_number)
+            continue
+          }
+          // A later write of ours may have come back first
+          const knownUpdatedAt = rampUpdatedAtRef.current[row.ramp_number]
+          if (knownUpdatedAt && new Date(stored.updated_at).getTime() <= new Date(knownUpdatedAt).getTime()) continue
+
+          const storedValues = JSON.stringify(toRampStatusFields(row.ramp_number, fromRampStatusRow(stored)))
+          if (storedValues === sentValues[row.ramp_number]) {
+            rampUpdatedAtRef.current[row.ramp_number] = stored.updated_at
+          } else {
+            // Stored differently than sent: the server state wins
+            applyRampRow(stored)
+          }
+        }
+
+        // Not stored at all: reload those ramps so this device shows what the others see
+        if (missing.length > 0) {
+          console.warn(`Ramp status of ${missing.join(", ")} was not stored, reloading it`)
+          for (const rampNumber of missing) {
+            delete syncedRampsRef.current[rampNumber]
+          }
+          const { data: reloaded, error: reloadError } = await client
+            .from("ramp_status")
+            .select("*")
+            .eq("site_id", siteId)
+            .in("ramp_number", missing)
+          if (reloadError) {
+            throw reloadError
+          }
+          for (const row of (reloaded || []) as WarehouseStatusRow[]) {
+            applyRampRow(row)
+          }
+        }
+
+        setLastSynced(new Date())
+      } catch (error: any) {
+        // Go back to the last known server state so the next save retries these ramps
+        for (const row of changedRows) {
+          const previous = previousSynced[row.ramp_number]
+          if (previous === undefined) {
+            delete syncedRampsRef.current[row.ramp_number]
+          } else {
+            syncedRampsRef.current[row.ramp_number] = previous
+          }
+        }
+        console.error("Error syncing ramp status:", error)
+        setSyncError(`Ramp sync failed: ${error?.message}`)
+      } finally {
+        // Remote changes that arrived during the write still apply if they are newer than it
+        for (const rampNumber of rampNumbers) {
+          pendingRampWritesRef.current[rampNumber] -= 1
+          if (pendingRampWritesRef.current[rampNumber] > 0) continue
+          delete pendingRampWritesRef.current[rampNumber]
+          const held = heldRemoteRampsRef.current[rampNumber]
+          delete heldRemoteRampsRef.current[rampNumber]
+          handleRemoteRampChange(held)
+        }
+      }
+    },
+    [isSupabaseAvailable, connectionStatus, siteId, applyRampRow, handleRemoteRampChange],
+  )
 
   return (
     <SupabaseSyncContext.Provider
@@ -282,6 +574,7 @@ export function SupabaseSyncProvider({ children }: { children: React.ReactNode }
         lastSynced,
         syncLookupData,
         syncRampStatus,
+        fetchRampStatus,
         isSupabaseAvailable,
         isInitializing,
         connectionStatus,
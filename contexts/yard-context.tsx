@@ -0,0 +1,286 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { supabase, type YardEntryRow } from "@/lib/supabase"
+import { createId } from "@/lib/utils"
+import { scopedStorageKey } from "@/lib/sites"
+import { useSupabaseSync } from "./supabase-sync-context"
+import { useSite } from "./site-context"
+
+// A truck that has arrived at the gate and waits in the yard for a ramp
+export interface YardEntry {
+  id: string
+  truck: string
+  trailer: string
+  // ISO timestamp
+  arrivedAt: string
+  // False until the entry is stored in Supabase
+  synced?: boolean
+}
+
+interface YardContextType {
+  yardQueue: YardEntry[]
+  addToYard: (truck: string, trailer: string) => YardEntry
+  removeFromYard: (id: string) => void
+}
+
+const defaultContextValue: YardContextType = {
+  yardQueue: [],
+  addToYard: () => {
+    throw new Error("YardProvider is missing")
+  },
+  removeFromYard: () => {},
+}
+
+const toYardEntryRow = (entry: YardEntry, siteId: string): YardEntryRow => ({
+  id: entry.id,
+  site_id: siteId,
+  truck: entry.truck,
+  trailer: entry.trailer,
+  arrived_at: entry.arrivedAt,
+})
+
+const fromYardEntryRow = (row: YardEntryRow): YardEntry => ({
+  id: row.id,
+  truck: row.truck || "",
+  trailer: row.trailer || "",
+  arrivedAt: new Date(row.arrived_at).toISOString(),
+  synced: true,
+})
+
+// First come, first served
+const sortByArrival = (entries: YardEntry[]) => [...entries].sort((a, b) => a.arrivedAt.localeCompare(b.arrivedAt))
+
+const YardContext = createContext<YardContextType>(defaultContextValue)
+
+export function YardProvider({ children }: { children: React.ReactNode }) {
+  const isInitialized = useRef(false)
+  const flushInProgress = useRef(false)
+  const removalFlushInProgress = useRef(false)
+  const [yardQueue, setYardQueue] = useState<YardEntry[]>([])
+  // Ids removed here that may still be on the server; kept until the delete went through
+  const [pendingRemovals, setPendingRemovals] = useState<string[]>([])
+  const pendingRemovalsRef = useRef<string[]>([])
+  // Local entries are only uploaded once the shared queue has been loaded
+  const [isServerQueueLoaded, setIsServerQueueLoaded] = useState(false)
+
+  const { isSupabaseAvailable, connectionStatus } = useSupabaseSync()
+  const { activeSite } = useSite()
+  const siteId = activeSite.id
+  const yardStorageKey = scopedStorageKey("yardQueue", siteId)
+  const removalsStorageKey = scopedStorageKey("yardPendingRemovals", siteId)
+  const isConnected = isSupabaseAvailable && connectionStatus === "connected" && supabase !== null
+
+  const updateYardQueue = useCallback(
+    (update: (prev: YardEntry[]) => YardEntry[]) => {
+      setYardQueue((prev) => {
+        const nextQueue = sortByArrival(update(prev))
+        try {
+          localStorage.setItem(yardStorageKey, JSON.stringify(nextQueue))
+        } catch (e) {
+          console.error("❌ Failed to save yard queue", e)
+        }
+        return nextQueue
+      })
+    },
+    [yardStorageKey],
+  )
+
+  const updatePendingRemovals = useCallback(
+    (update: (prev: string[]) => string[]) => {
+      setPendingRemovals((prev) => {
+        const nextRemovals = update(prev)
+        pendingRemovalsRef.current = nextRemovals
+        try {
+          localStorage.setItem(removalsStorageKey, JSON.stringify(nextRemovals))
+        } catch (e) {
+          console.error("❌ Failed to save yard removals", e)
+        }
+        return nextRemovals
+      })
+    },
+    [removalsStorageKey],
+  )
+
+  // Delete removed entries on the server and forget the ones that are gone
+  const flushRemovals = useCallback(
+    async (client: NonNullable<typeof supabase>, ids: string[]) => {
+      const { error } = await client.from("yard_queue").delete().in("id", ids)
+      if (error) {
+        console.error("❌ Failed to remove yard entries from Supabase:", error)
+        return
+      }
+      const removed = new Set(ids)
+      updatePendingRemovals((prev) => prev.filter((id) => !removed.has(id)))
+    },
+    [updatePendingRemovals],
+  )
+
+  // Load the local copy
+  useEffect(() => {
+    if (isInitialized.current) return
+    isInitialized.current = true
+
+    try {
+      const savedQueue = localStorage.getItem(yardStorageKey)
+      if (savedQueue) {
+        setYardQueue(sortByArrival(JSON.parse(savedQueue)))
+      }
+      const savedRemovals = localStorage.getItem(removalsStorageKey)
+      if (savedRemovals) {
+        const parsed: string[] = JSON.parse(savedRemovals)
+        pendingRemovalsRef.current = parsed
+        setPendingRemovals(parsed)
+      }
+    } catch (e) {
+      console.error("❌ Failed to load yard queue", e)
+    }
+  }, [yardStorageKey, removalsStorageKey])
+
+  // Once connected, the shared queue replaces the local copy and follows changes from other devices.
+  // Entries added here while offline are not on the server yet, so they are kept and uploaded.
+  // Entries removed here while offline are deleted first and never taken back from the server
+  useEffect(() => {
+    if (!isConnected || !supabase) {
+      setIsServerQueueLoaded(false)
+      return
+    }
+    const client = supabase
+
+    const loadServerQueue = async () => {
+      if (pendingRemovalsRef.current.length > 0) {
+        await flushRemovals(client, pendingRemovalsRef.current)
+      }
+
+      const { data, error } = await client.from("yard_queue").select("*").eq("site_id", siteId)
+      if (error) {
+        console.error("❌ Failed to load yard queue:", error)
+        return
+      }
+      const removed = new Set(pendingRemovalsRef.current)
+      const serverQueue = ((data || []) as YardEntryRow[])
+        .map(fromYardEntryRow)
+        .filter((entry) => !removed.has(entry.id))
+      const serverIds = new Set(serverQueue.map((entry) => entry.id))
+      updateYardQueue((prev) => [
+        ...serverQueue,
+        ...prev.filter((entry) => !entry.synced && !serverIds.has(entry.id)),
+      ])
+      setIsServerQueueLoaded(true)
+      console.log(`🅿️ Loaded ${serverQueue.length} yard entries from Supabase`)
+    }
+    loadServerQueue()
+
+    // Delete events cannot be filtered by site, but ids are unique anyway
+    const channel = client
+      .channel(`yard_queue_${siteId}_${Date.now()}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "yard_queue", filter: `site_id=eq.${siteId}` },
+        (payload) => {
+          const entry = fromYardEntryRow(payload.new as YardEntryRow)
+          if (pendingRemovalsRef.current.includes(entry.id)) return
+          updateYardQueue((prev) => [...prev.filter((existing) => existing.id !== entry.id), entry])
+        },
+      )
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "yard_queue" }, (payload) => {
+        const id = (payload.old as Partial<YardEntryRow>)?.id
+        if (id) {
+          updateYardQueue((prev) => prev.filter((entry) => entry.id !== id))
+        }
+      })
+      .subscribe()
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }, [isConnected, siteId, updateYardQueue, flushRemovals])
+
+  // Push entries added while offline (or whose upload failed) once the shared queue is loaded
+  useEffect(() => {
+    if (!isConnected || !supabase || !isServerQueueLoaded || flushInProgress.current) return
+
+    const unsynced = yardQueue.filter((entry) => !entry.synced)
+    if (unsynced.length === 0) return
+
+    flushInProgress.current = true
+    supabase
+      .from("yard_queue")
+      .upsert(
+        unsynced.map((entry) => toYardEntryRow(entry, siteId)),
+        { onConflict: "id", ignoreDuplicates: true },
+      )
+      .then(({ error }) => {
+        flushInProgress.current = false
+        if (error) {
+          console.error("❌ Failed to upload yard entries:", error)
+          return
+        }
+        const ids = new Set(unsynced.map((entry) => entry.id))
+        updateYardQueue((prev) => prev.map((entry) => (ids.has(entry.id) ? { ...entry, synced: true } : entry)))
+        console.log(`📡 Uploaded ${unsynced.length} yard entries`)
+      })
+  }, [isConnected, isServerQueueLoaded, yardQueue, siteId, updateYardQueue])
+
+  // Delete entries removed while the shared queue is loaded (or whose delete failed)
+  useEffect(() => {
+    if (!isConnected || !supabase || !isServerQueueLoaded || removalFlushInProgress.current) return
+    if (pendingRemovals.length === 0) return
+
+    removalFlushInProgress.current = true
+    flushRemovals(supabase, pendingRemovals).finally(() => {
+      removalFlushInProgress.current = false
+    })
+  }, [isConnected, isServerQueueLoaded, pendingRemovals, flushRemovals])
+
+  const addToYard = useCallback(
+    (truck: string, trailer: string): YardEntry => {
+      if (!truck.trim() && !trailer.trim()) {
+        throw new Error("Enter a truck or trailer number")
+      }
+
+      const entry: YardEntry = {
+        id: createId(),
+        truck: truck.trim(),
+        trailer: trailer.trim(),
+        arrivedAt: new Date().toISOString(),
+        synced: false,
+      }
+      // Uploaded by the flush above, now or once connected
+      updateYardQueue((prev) => [...prev, entry])
+
+      console.log(`🅿️ ${entry.truck || entry.trailer} is waiting in the yard`)
+      return entry
+    },
+    [updateYardQueue],
+  )
+
+  const removeFromYard = useCallback(
+    (id: string) => {
+      updateYardQueue((prev) => prev.filter((entry) => entry.id !== id))
+      // Deleted by the flush above, now or once connected
+      updatePendingRemovals((prev) => (prev.includes(id) ? prev : [...prev, id]))
+    },
+    [updateYardQueue, updatePendingRemovals],
+  )
+
+  const contextValue = useMemo(
+    () => ({
+      yardQueue,
+      addToYard,
+      removeFromYard,
+    }),
+    [yardQueue, addToYard, removeFromYard],
+  )
+
+  return <YardContext.Provider value={contextValue}>{children}</YardContext.Provider>
+}
+
+export function useYard() {
+  const context = useContext(YardContext)
+  if (!context) {
+    throw new Error("useYard must be used within a YardProvider")
+  }
+  return context
+}
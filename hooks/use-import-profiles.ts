@@ -0,0 +1,123 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { createId } from "@/lib/utils"
+import {
+  DEFAULT_IMPORT_PROFILE,
+  DEFAULT_IMPORT_PROFILE_ID,
+  validateImportProfile,
+  type HtmlImportProfile,
+} from "@/utils/import-profiles"
+
+// HTML import profiles saved on this device; the built-in default is always available and always first
+export function useImportProfiles() {
+  const isInitialized = useRef(false)
+  const [customProfiles, setCustomProfiles] = useState<HtmlImportProfile[]>([])
+  const [selectedProfileId, setSelectedProfileId] = useState(DEFAULT_IMPORT_PROFILE_ID)
+
+  useEffect(() => {
+    if (isInitialized.current) return
+    isInitialized.current = true
+
+    try {
+      const savedProfiles = localStorage.getItem("htmlImportProfiles")
+      if (savedProfiles) {
+        setCustomProfiles(JSON.parse(savedProfiles))
+      }
+      const savedSelection = localStorage.getItem("htmlImportProfile")
+      if (savedSelection) {
+        setSelectedProfileId(savedSelection)
+      }
+    } catch (e) {
+      console.error("❌ Failed to load import profiles", e)
+    }
+  }, [])
+
+  const saveProfiles = useCallback((nextProfiles: HtmlImportProfile[]) => {
+    setCustomProfiles(nextProfiles)
+    try {
+      localStorage.setItem("htmlImportProfiles", JSON.stringify(nextProfiles))
+    } catch (e) {
+      console.error("❌ Failed to save import profiles", e)
+    }
+  }, [])
+
+  const profiles = useMemo(() => [DEFAULT_IMPORT_PROFILE, ...customProfiles], [customProfiles])
+  const selectedProfile = profiles.find((profile) => profile.id === selectedProfileId) || DEFAULT_IMPORT_PROFILE
+
+  const selectProfile = useCallback((id: string) => {
+    setSelectedProfileId(id)
+    localStorage.setItem("htmlImportProfile", id)
+  }, [])
+
+  // Add or update a custom profile; throws with a readable message when it is invalid
+  const saveProfile = useCallback(
+    (profile: HtmlImportProfile): HtmlImportProfile => {
+      if (profile.builtIn) {
+        throw new Error("The built-in profile cannot be changed; save a copy instead")
+      }
+      const problem = validateImportProfile(profile)
+      if (problem) {
+        throw new Error(problem)
+      }
+
+      const saved = { ...profile, name: profile.name.trim() }
+      const exists = customProfiles.some((existing) => existing.id === saved.id)
+      saveProfiles(
+        exists
+          ? customProfiles.map((existing) => (existing.id === saved.id ? saved : existing))
+          : [...customProfiles, saved],
+      )
+      console.log(`🧩 Saved import profile "${saved.name}"`)
+      return saved
+    },
+    [customProfiles, saveProfiles],
+  )
+
+  // Start a new custom profile from an existing one
+  const copyProfile = useCallback(
+    (profile: HtmlImportProfile): HtmlImportProfile => ({
+      ...profile,
+      id: createId(),
+      name: `${profile.name} (copy)`,
+      builtIn: false,
+    }),
+    [],
+  )
+
+  const deleteProfile = useCallback(
+    (id: string) => {
+      if (id === DEFAULT_IMPORT_PROFILE_ID) return
+      saveProfiles(customProfiles.filter((profile) => profile.id !== id))
+      if (selectedProfileId === id) {
+        selectProfile(DEFAULT_IMPORT_PROFILE_ID)
+      }
+    },
+    [customProfiles, saveProfiles, selectedProfileId, selectProfile],
+  )
+
+  // Replace the custom profiles, e.g. from a workspace backup; the selection falls back to the default if it is gone
+  const replaceProfiles = useCallback(
+    (nextProfiles: HtmlImportProfile[]) => {
+      const customOnly = nextProfiles.filter((profile) => !profile.builtIn)
+      saveProfiles(customOnly)
+      const selectionKept =
+        selectedProfileId === DEFAULT_IMPORT_PROFILE_ID || customOnly.some((profile) => profile.id === selectedProfileId)
+      if (!selectionKept) {
+        selectProfile(DEFAULT_IMPORT_PROFILE_ID)
+      }
+    },
+    [saveProfiles, selectedProfileId, selectProfile],
+  )
+
+  return {
+    profiles,
+    customProfiles,
+    selectedProfile,
+    selectProfile,
+    saveProfile,
+    copyProfile,
+    deleteProfile,
+    replaceProfiles,
+  }
+}
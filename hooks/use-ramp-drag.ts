@@ -0,0 +1,89 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
+
+export interface RampDragState<T> {
+  item: T
+  // Pointer position in client coordinates, for the drag preview
+  x: number
+  y: number
+  // Ramp under the pointer, if any
+  overRamp: number | null
+}
+
+// Pointer movement before a press becomes a drag, so taps still work as clicks
+const DRAG_THRESHOLD = 6
+
+// Ramp number of the [data-ramp] element under a client position
+const findRampAt = (x: number, y: number): number | null => {
+  const element = document.elementFromPoint(x, y)?.closest("[data-ramp]")
+  const rampNumber = Number(element?.getAttribute("data-ramp"))
+  return Number.isInteger(rampNumber) && rampNumber > 0 ? rampNumber : null
+}
+
+// Drag anything (HTML or SVG) onto a ramp with pointer events, so it works with mouse, touch and pen
+export function useRampDrag<T>(onDrop: (item: T, rampNumber: number) => void) {
+  const [drag, setDrag] = useState<RampDragState<T> | null>(null)
+  const pendingRef = useRef<{ item: T; startX: number; startY: number } | null>(null)
+  const dragRef = useRef<RampDragState<T> | null>(null)
+  const onDropRef = useRef(onDrop)
+
+  useEffect(() => {
+    onDropRef.current = onDrop
+  }, [onDrop])
+
+  const updateDrag = useCallback((next: RampDragState<T> | null) => {
+    dragRef.current = next
+    setDrag(next)
+  }, [])
+
+  useEffect(() => {
+    const handlePointerMove = (e: PointerEvent) => {
+      const pending = pendingRef.current
+      if (!pending) return
+
+      if (!dragRef.current && Math.hypot(e.clientX - pending.startX, e.clientY - pending.startY) < DRAG_THRESHOLD) {
+        return
+      }
+
+      e.preventDefault()
+      updateDrag({ item: pending.item, x: e.clientX, y: e.clientY, overRamp: findRampAt(e.clientX, e.clientY) })
+    }
+
+    const handlePointerUp = (e: PointerEvent) => {
+      const current = dragRef.current
+      pendingRef.current = null
+      if (!current) return
+
+      updateDrag(null)
+      const rampNumber = findRampAt(e.clientX, e.clientY)
+      if (rampNumber !== null) {
+        onDropRef.current(current.item, rampNumber)
+      }
+    }
+
+    const handlePointerCancel = () => {
+      pendingRef.current = null
+      updateDrag(null)
+    }
+
+    window.addEventListener("pointermove", handlePointerMove, { passive: false })
+    window.addEventListener("pointerup", handlePointerUp)
+    window.addEventListener("pointercancel", handlePointerCancel)
+
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove)
+      window.removeEventListener("pointerup", handlePointerUp)
+      window.removeEventListener("pointercancel", handlePointerCancel)
+    }
+  }, [updateDrag])
+
+  // Call from onPointerDown of the draggable element
+  const startDrag = useCallback((item: T, e: React.PointerEvent) => {
+    if (e.button !== 0) return
+    pendingRef.current = { item, startX: e.clientX, startY: e.clientY }
+  }, [])
+
+  return { drag, startDrag }
+}
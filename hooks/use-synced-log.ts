@@ -0,0 +1,151 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+
+// An entry of an append-only log that is kept locally and uploaded to Supabase
+export interface SyncedLogEntry {
+  id: string
+  // False until the entry is stored in Supabase
+  synced?: boolean
+}
+
+interface SyncedLogOptions<T extends SyncedLogEntry> {
+  storageKey: string
+  // Keep the local copy bounded; the full log lives in Supabase
+  maxEntries: number
+  // e.g. "ramp events", for the console
+  label: string
+  isConnected: boolean
+  // Store the entries in Supabase (ignoring ones already stored). May return fields Supabase set, by entry id
+  upload: (entries: T[]) => Promise<Map<string, Partial<T>> | void>
+}
+
+// Failed uploads are retried after 5s, 10s, 20s, ... up to every 5 minutes, and right away on reconnect
+const RETRY_BASE_DELAY = 5000
+const RETRY_MAX_DELAY = 5 * 60000
+
+// Drop the oldest uploaded entries beyond maxEntries; entries still waiting for Supabase are never dropped
+function trimEntries<T extends SyncedLogEntry>(entries: T[], maxEntries: number): T[] {
+  let excess = entries.length - maxEntries
+  if (excess <= 0) return entries
+
+  return entries.filter((entry) => {
+    if (excess > 0 && entry.synced) {
+      excess -= 1
+      return false
+    }
+    return true
+  })
+}
+
+// Local log in localStorage that uploads entries recorded offline (or whose upload failed) once Supabase is reachable
+export function useSyncedLog<T extends SyncedLogEntry>({
+  storageKey,
+  maxEntries,
+  label,
+  isConnected,
+  upload,
+}: SyncedLogOptions<T>) {
+  const isInitialized = useRef(false)
+  const flushInProgress = useRef(false)
+  const failedUploads = useRef(0)
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const uploadRef = useRef(upload)
+  const [entries, setEntries] = useState<T[]>([])
+  const [retryCount, setRetryCount] = useState(0)
+
+  useEffect(() => {
+    uploadRef.current = upload
+  }, [upload])
+
+  // Load the local copy
+  useEffect(() => {
+    if (isInitialized.current) return
+    isInitialized.current = true
+
+    try {
+      const savedEntries = localStorage.getItem(storageKey)
+      if (savedEntries) {
+        setEntries(JSON.parse(savedEntries))
+      }
+    } catch (e) {
+      console.error(`❌ Failed to load ${label}`, e)
+    }
+  }, [storageKey, label])
+
+  useEffect(() => {
+    return () => {
+      if (retryTimer.current) clearTimeout(retryTimer.current)
+    }
+  }, [])
+
+  // Change the log and save it; only the newest maxEntries (plus any not uploaded yet) are kept
+  const updateEntries = useCallback(
+    (update: (prev: T[]) => T[]) => {
+      setEntries((prev) => {
+        const nextEntries = trimEntries(update(prev), maxEntries)
+        try {
+          localStorage.setItem(storageKey, JSON.stringify(nextEntries))
+        } catch (e) {
+          console.error(`❌ Failed to save ${label}`, e)
+        }
+        return nextEntries
+      })
+    },
+    [storageKey, maxEntries, label],
+  )
+
+  const appendEntries = useCallback(
+    (newEntries: T[]) => {
+      if (newEntries.length > 0) {
+        updateEntries((prev) => [...prev, ...newEntries])
+      }
+    },
+    [updateEntries],
+  )
+
+  // Push unsynced entries while connected; retryCount re-runs this after a failed upload.
+  // New entries wait for a pending retry instead of hitting a failing server right away
+  useEffect(() => {
+    if (!isConnected || flushInProgress.current || retryTimer.current) return
+
+    const unsynced = entries.filter((entry) => !entry.synced)
+    if (unsynced.length === 0) return
+
+    flushInProgress.current = true
+    uploadRef.current(unsynced).then(
+      (changes) => {
+        flushInProgress.current = false
+        failedUploads.current = 0
+        const ids = new Set(unsynced.map((entry) => entry.id))
+        updateEntries((prev) =>
+          prev.map((entry) => (ids.has(entry.id) ? { ...entry, ...changes?.get(entry.id), synced: true } : entry)),
+        )
+        console.log(`📡 Uploaded ${unsynced.length} ${label}`)
+      },
+      (error) => {
+        flushInProgress.current = false
+        const delay = Math.min(RETRY_BASE_DELAY * 2 ** failedUploads.current, RETRY_MAX_DELAY)
+        failedUploads.current += 1
+        console.error(`❌ Failed to upload ${label}, retrying in ${delay / 1000}s:`, error)
+        retryTimer.current = setTimeout(() => {
+          retryTimer.current = null
+          setRetryCount((prev) => prev + 1)
+        }, delay)
+      },
+    )
+  }, [isConnected, entries, retryCount, label, updateEntries])
+
+  // A reconnect starts the backoff over and retries right away
+  useEffect(() => {
+    if (!isConnected) return
+    failedUploads.current = 0
+    if (retryTimer.current) {
+      clearTimeout(retryTimer.current)
+      retryTimer.current = null
+      setRetryCount((prev) => prev + 1)
+    }
+  }, [isConnected])
+
+  return { entries, updateEntries, appendEntries }
+}
@@ -0,0 +1,97 @@
+"use client"
+
+import { useState, useRef, useCallback } from "react"
+
+export interface UndoEntry<T> {
+  label: string
+  // State to go back to; replaced by the state it overwrote whenever the entry moves between stacks
+  snapshot: T
+  // Consecutive entries with the same key inside the coalesce window become one step (e.g. typing)
+  coalesceKey?: string
+  timestamp: number
+}
+
+interface UndoRedoOptions {
+  limit?: number
+  coalesceWindow?: number
+}
+
+// Undo/redo stacks of snapshots. The caller applies snapshots and tells the hook
+// what the current state is, so the hook stays independent of the state shape.
+export function useUndoRedo<T>({ limit = 100, coalesceWindow = 1000 }: UndoRedoOptions = {}) {
+  const undoStack = useRef<UndoEntry<T>[]>([])
+  const redoStack = useRef<UndoEntry<T>[]>([])
+  const [stackSizes, setStackSizes] = useState({ undo: 0, redo: 0 })
+
+  const updateStackSizes = useCallback(() => {
+    setStackSizes({ undo: undoStack.current.length, redo: redoStack.current.length })
+  }, [])
+
+  // Returns false when the change was merged into the previous step
+  const pushUndo = useCallback(
+    (label: string, snapshot: T, coalesceKey?: string): boolean => {
+      const now = Date.now()
+      const last = undoStack.current[undoStack.current.length - 1]
+      redoStack.current = []
+
+      if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.timestamp < coalesceWindow) {
+        last.timestamp = now
+        updateStackSizes()
+        return false
+      }
+
+      undoStack.current = [...undoStack.current, { label, snapshot, coalesceKey, timestamp: now }].slice(-limit)
+      updateStackSizes()
+      return true
+    },
+    [limit, coalesceWindow, updateStackSizes],
+  )
+
+  // Pops the latest step; captureCurrent returns the state the snapshot is about to overwrite
+  const undo = useCallback(
+    (captureCurrent: (snapshot: T) => T): UndoEntry<T> | null => {
+      const entry = undoStack.current[undoStack.current.length - 1]
+      if (!entry) return null
+
+      undoStack.current = undoStack.current.slice(0, -1)
+      redoStack.current = [
+        ...redoStack.current,
+        { label: entry.label, snapshot: captureCurrent(entry.snapshot), timestamp: Date.now() },
+      ]
+      updateStackSizes()
+      return entry
+    },
+    [updateStackSizes],
+  )
+
+  const redo = useCallback(
+    (captureCurrent: (snapshot: T) => T): UndoEntry<T> | null => {
+      const entry = redoStack.current[redoStack.current.length - 1]
+      if (!entry) return null
+
+      redoStack.current = redoStack.current.slice(0, -1)
+      undoStack.current = [
+        ...undoStack.current,
+        { label: entry.label, snapshot: captureCurrent(entry.snapshot), timestamp: Date.now() },
+      ]
+      updateStackSizes()
+      return entry
+    },
+    [updateStackSizes],
+  )
+
+  const clearHistory = useCallback(() => {
+    undoStack.current = []
+    redoStack.current = []
+    updateStackSizes()
+  }, [updateStackSizes])
+
+  return {
+    pushUndo,
+    undo,
+    redo,
+    clearHistory,
+    canUndo: stackSizes.undo > 0,
+    canRedo: stackSizes.redo > 0,
+  }
+}
@@ -0,0 +1,274 @@
+import defaultLayoutJson from "./layouts/default-layout.json"
+
+export type RampSide = "left" | "right" | "bottom"
+
+export const RAMP_SIDES: RampSide[] = ["left", "right", "bottom"]
+
+// Ramps of one side, either listed explicitly or as a numbered range
+export interface RampSideDefinition {
+  // Display order: top to bottom for left/right, left to right for bottom. null leaves an empty slot.
+  ramps?: (number | null)[]
+  // Shorthand for consecutive numbers, counting up or down from "from" to "to"
+  range?: { from: number; to: number }
+  // Ramp numbers after which an empty slot is left (only used with "range")
+  gapsAfter?: number[]
+}
+
+export interface WarehouseLayoutDefinition {
+  id: string
+  name: string
+  canvas: { width: number; height: number }
+  building: {
+    x: number
+    y: number
+    width: number
+    height: number
+    bottomSectionHeight: number
+    parkingZoneWidth: number
+  }
+  inputWidth: number
+  sides: Partial<Record<RampSide, RampSideDefinition>>
+}
+
+export interface RampPosition {
+  x: number
+  y: number
+  truckInputX: number
+  truckInputY: number
+  trailerInputX: number
+  trailerInputY: number
+  side: RampSide
+  inputWidth: number
+}
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === "number" && value > 0
+const isRampNumber = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0
+
+// Expand a side definition into its slots (ramp numbers and gaps) in display order
+export function getSideSlots(definition: RampSideDefinition | undefined): (number | null)[] {
+  if (!definition) return []
+  if (definition.ramps) return definition.ramps
+  if (!definition.range) return []
+
+  const { from, to } = definition.range
+  const step = from <= to ? 1 : -1
+  const gapsAfter = new Set(definition.gapsAfter || [])
+  const slots: (number | null)[] = []
+
+  for (let rampNumber = from; step > 0 ? rampNumber <= to : rampNumber >= to; rampNumber += step) {
+    slots.push(rampNumber)
+    if (gapsAfter.has(rampNumber) && rampNumber !== to) {
+      slots.push(null)
+    }
+  }
+
+  return slots
+}
+
+// Validate untrusted JSON and return it as a layout definition; throws with a readable message
+export function parseLayoutDefinition(input: unknown): WarehouseLayoutDefinition {
+  if (!input || typeof input !== "object") {
+    throw new Error("Layout must be a JSON object")
+  }
+
+  const layout = input as WarehouseLayoutDefinition
+
+  if (typeof layout.id !== "string" || !layout.id.trim()) {
+    throw new Error("Layout needs an id")
+  }
+  if (typeof layout.name !== "string" || !layout.name.trim()) {
+    throw new Error("Layout needs a name")
+  }
+  if (!layout.canvas || !isPositiveNumber(layout.canvas.width) || !isPositiveNumber(layout.canvas.height)) {
+    throw new Error("Layout canvas needs a positive width and height")
+  }
+
+  const building = layout.building
+  if (
+    !building ||
+    typeof building.x !== "number" ||
+    typeof building.y !== "number" ||
+    !isPositiveNumber(building.width) ||
+    !isPositiveNumber(building.height) ||
+    typeof building.bottomSectionHeight !== "number" ||
+    building.bottomSectionHeight < 0 ||
+    building.bottomSectionHeight >= building.height ||
+    typeof building.parkingZoneWidth !== "number" ||
+    building.parkingZoneWidth < 0
+  ) {
+    throw new Error("Layout building needs x, y, width, height, bottomSectionHeight and parkingZoneWidth")
+  }
+  if (!isPositiveNumber(layout.inputWidth)) {
+    throw new Error("Layout needs a positive inputWidth")
+  }
+  if (!layout.sides || typeof layout.sides !== "object") {
+    throw new Error("Layout needs a sides object")
+  }
+
+  const seenRamps = new Set<number>()
+  for (const [side, definition] of Object.entries(layout.sides)) {
+    if (!RAMP_SIDES.includes(side as RampSide)) {
+      throw new Error(`Unknown side "${side}" (expected left, right or bottom)`)
+    }
+    if (!definition) continue
+
+    if (definition.ramps !== undefined && !Array.isArray(definition.ramps)) {
+      throw new Error(`Side "${side}": ramps must be an array`)
+    }
+    if (
+      definition.range !== undefined &&
+      (!isRampNumber(definition.range.from) || !isRampNumber(definition.range.to))
+    ) {
+      throw new Error(`Side "${side}": range needs positive whole numbers "from" and "to"`)
+    }
+    if (!definition.ramps && !definition.range) {
+      throw new Error(`Side "${side}" needs either "ramps" or "range"`)
+    }
+
+    for (const rampNumber of getSideSlots(definition)) {
+      if (rampNumber === null) continue
+      if (!isRampNumber(rampNumber)) {
+        throw new Error(`Side "${side}": "${rampNumber}" is not a valid ramp number`)
+      }
+      if (seenRamps.has(rampNumber)) {
+        throw new Error(`Ramp ${rampNumber} appears more than once`)
+      }
+      seenRamps.add(rampNumber)
+    }
+  }
+
+  if (seenRamps.size === 0) {
+    throw new Error("Layout has no ramps")
+  }
+
+  return layout
+}
+
+export const DEFAULT_LAYOUT: WarehouseLayoutDefinition = parseLayoutDefinition(defaultLayoutJson)
+
+// All ramp numbers of a layout, ascending
+export function getLayoutRampNumbers(layout: WarehouseLayoutDefinition): number[] {
+  const rampNumbers: number[] = []
+  for (const side of RAMP_SIDES) {
+    for (const rampNumber of getSideSlots(layout.sides[side])) {
+      if (rampNumber !== null) rampNumbers.push(rampNumber)
+    }
+  }
+  return rampNumbers.sort((a, b) => a - b)
+}
+
+// Slot spacing shared by ramp positions and grid lines
+export function getSlotSpacing(layout: WarehouseLayoutDefinition) {
+  const { building } = layout
+  const leftSlots = getSideSlots(layout.sides.left).length
+  const rightSlots = getSideSlots(layout.sides.right).length
+  const bottomSlots = getSideSlots(layout.sides.bottom).length
+  const maxSideSlots = Math.max(leftSlots, rightSlots, 1)
+
+  return {
+    leftSlots,
+    rightSlots,
+    bottomSlots,
+    maxSideSlots,
+    side: (building.height - building.bottomSectionHeight) / maxSideSlots,
+    bottom: building.width / Math.max(bottomSlots, 1),
+  }
+}
+
+// Positions of every ramp and its inputs around the building
+export function computeRampPositions(layout: WarehouseLayoutDefinition): Record<number, RampPosition> {
+  const { building, inputWidth } = layout
+  const spacing = getSlotSpacing(layout)
+  const positions: Record<number, RampPosition> = {}
+
+  getSideSlots(layout.sides.left).forEach((rampNumber, i) => {
+    if (rampNumber === null) return
+    const y = building.y + (i + 0.5) * spacing.side
+    positions[rampNumber] = {
+      x: building.x,
+      y,
+      truckInputX: building.x + 70,
+      truckInputY: y - 20,
+      trailerInputX: building.x + 180,
+      trailerInputY: y - 20,
+      side: "left",
+      inputWidth,
+    }
+  })
+
+  getSideSlots(layout.sides.right).forEach((rampNumber, i) => {
+    if (rampNumber === null) return
+    const y = building.y + (i + 0.5) * spacing.side
+    positions[rampNumber] = {
+      x: building.x + building.width,
+      y,
+      truckInputX: building.x + building.width - 180,
+      truckInputY: y - 20,
+      trailerInputX: building.x + building.width - 290,
+      trailerInputY: y - 20,
+      side: "right",
+      inputWidth,
+    }
+  })
+
+  // Bottom inputs are stacked, so they shrink to fit narrow slots
+  const bottomInputWidth = Math.min(spacing.bottom - 30, inputWidth)
+  getSideSlots(layout.sides.bottom).forEach((rampNumber, i) => {
+    if (rampNumber === null) return
+    const x = building.x + (i + 0.5) * spacing.bottom
+    positions[rampNumber] = {
+      x,
+      y: building.y + building.height,
+      truckInputX: x - bottomInputWidth / 2,
+      truckInputY: building.y + building.height - 85,
+      trailerInputX: x - bottomInputWidth / 2,
+      trailerInputY: building.y + building.height - 135,
+      side: "bottom",
+      inputWidth: bottomInputWidth,
+    }
+  })
+
+  return positions
+}
+
+export interface YardSlot {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const YARD_CARD_HEIGHT = 40
+const YARD_CARD_GAP = 6
+
+// Card slots for the yard queue in the corners of the parking zone, bottom corners first
+export function computeYardSlots(layout: WarehouseLayoutDefinition): YardSlot[] {
+  const { building, canvas } = layout
+  const width = building.parkingZoneWidth - 2 * YARD_CARD_GAP
+  if (width <= 0) return []
+
+  const bottomRoom = Math.min(building.parkingZoneWidth, canvas.height - (building.y + building.height))
+  const topRoom = Math.min(building.parkingZoneWidth, building.y)
+  const leftX = building.x - building.parkingZoneWidth + YARD_CARD_GAP
+  const rightX = building.x + building.width + YARD_CARD_GAP
+  const corners = [
+    { x: leftX, y: building.y + building.height, height: bottomRoom },
+    { x: rightX, y: building.y + building.height, height: bottomRoom },
+    { x: leftX, y: building.y - topRoom, height: topRoom },
+    { x: rightX, y: building.y - topRoom, height: topRoom },
+  ]
+
+  const slots: YardSlot[] = []
+  for (const corner of corners) {
+    const count = Math.floor((corner.height - YARD_CARD_GAP) / (YARD_CARD_HEIGHT + YARD_CARD_GAP))
+    for (let i = 0; i < count; i++) {
+      slots.push({
+        x: corner.x,
+        y: corner.y + YARD_CARD_GAP + i * (YARD_CARD_HEIGHT + YARD_CARD_GAP),
+        width,
+        height: YARD_CARD_HEIGHT,
+      })
+    }
+  }
+  return slots
+}
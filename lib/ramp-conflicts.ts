@@ -0,0 +1,58 @@
+import type { RampStatus } from "@/components/warehouse-visualization"
+import { normalizeLookupValue } from "@/utils/lookup-matching"
+
+// The same truck or trailer entered on more than one ramp
+export interface RampConflict {
+  field: "truck" | "trailer"
+  value: string
+  // The other ramps holding the same value
+  otherRamps: number[]
+}
+
+export type RampConflictAction = "move-here" | "release-other"
+
+// Conflicts per ramp; values are compared like lookups, so "080" on one ramp and "80" on another conflict.
+// Ramps whose truck is leaving are ignored
+export function findRampConflicts(rampStatus: Record<number, RampStatus>): Record<number, RampConflict[]> {
+  const rampsByValue = {
+    truck: new Map<string, { value: string; ramps: number[] }>(),
+    trailer: new Map<string, { value: string; ramps: number[] }>(),
+  }
+
+  for (const [rampKey, status] of Object.entries(rampStatus)) {
+    if (!status || status.isExiting) continue
+    const rampNumber = Number(rampKey)
+
+    for (const field of ["truck", "trailer"] as const) {
+      const value = (field === "truck" ? status.truckValue : status.trailerValue)?.trim()
+      const key = value ? normalizeLookupValue(value) : ""
+      if (!key) continue
+
+      const entry = rampsByValue[field].get(key)
+      if (entry) {
+        entry.ramps.push(rampNumber)
+      } else {
+        rampsByValue[field].set(key, { value, ramps: [rampNumber] })
+      }
+    }
+  }
+
+  const conflicts: Record<number, RampConflict[]> = {}
+  for (const field of ["truck", "trailer"] as const) {
+    for (const { value, ramps } of rampsByValue[field].values()) {
+      if (ramps.length < 2) continue
+      for (const rampNumber of ramps) {
+        conflicts[rampNumber] = [
+          ...(conflicts[rampNumber] || []),
+          { field, value, otherRamps: ramps.filter((other) => other !== rampNumber) },
+        ]
+      }
+    }
+  }
+  return conflicts
+}
+
+// "Truck 123 also on ramp 7"
+export function describeRampConflict(conflict: RampConflict): string {
+  return `${conflict.field === "truck" ? "Truck" : "Trailer"} ${conflict.value} also on ramp ${conflict.otherRamps.join(", ")}`
+}
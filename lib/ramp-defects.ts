@@ -0,0 +1,40 @@
+export type DefectReason = "door" | "leveler" | "light" | "other"
+
+export interface RampDefect {
+  reason: DefectReason
+  note: string
+  reportedBy: string
+  // ISO timestamp
+  reportedAt: string
+}
+
+export const DEFECT_REASONS: DefectReason[] = ["door", "leveler", "light", "other"]
+
+export const defectReasonLabels: Record<DefectReason, string> = {
+  door: "Door",
+  leveler: "Leveler",
+  light: "Light",
+  other: "Other",
+}
+
+// Short human-readable description, e.g. "Leveler: hydraulics leaking"
+export function describeDefect(defect: RampDefect): string {
+  const label = defectReasonLabels[defect.reason] || defectReasonLabels.other
+  return defect.note ? `${label}: ${defect.note}` : label
+}
+
+// Check untrusted data (Supabase rows, old localStorage) and return a defect or null
+export function parseDefect(value: unknown): RampDefect | null {
+  if (!value || typeof value !== "object") return null
+
+  const defect = value as Partial<RampDefect>
+  return {
+    reason: DEFECT_REASONS.includes(defect.reason as DefectReason) ? (defect.reason as DefectReason) : "other",
+    note: typeof defect.note === "string" ? defect.note : "",
+    reportedBy: typeof defect.reportedBy === "string" ? defect.reportedBy : "",
+    reportedAt: typeof defect.reportedAt === "string" ? defect.reportedAt : new Date().toISOString(),
+  }
+}
+
+// Before defects had reasons, typing "defect" into the truck or trailer field turned a ramp yellow
+export const LEGACY_DEFECT_VALUE = "defect"
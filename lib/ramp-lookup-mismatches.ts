@@ -0,0 +1,63 @@
+import type { RampStatus } from "@/components/warehouse-visualization"
+import { normalizeLookupValue } from "@/utils/lookup-matching"
+
+// A ramp whose truck-trailer pair no longer agrees with the lookup data
+export interface RampLookupMismatch {
+  rampNumber: number
+  // What the ramp holds
+  truck: string
+  trailer: string
+  // The pair the lookup data suggests instead
+  lookupTruck: string
+  lookupTrailer: string
+}
+
+// Trailers are looked up with and without their "O-" prefix, so "O-154" and "154" are the same trailer
+const sameValue = (a: string, b: string) =>
+  normalizeLookupValue(a).replace(/^o(?=[0-9])/, "") === normalizeLookupValue(b).replace(/^o(?=[0-9])/, "")
+
+// Ramps holding both a truck and a trailer that the lookup data now pairs differently.
+// The truck decides the suggested pair; its trailer is only taken from the trailer when the truck is unknown
+export function findRampLookupMismatches(
+  rampStatus: Record<number, RampStatus>,
+  lookupTrailerByTruck: (truck: string) => string | null,
+  lookupTruckByTrailer: (trailer: string) => string | null,
+): Record<number, RampLookupMismatch> {
+  const mismatches: Record<number, RampLookupMismatch> = {}
+
+  for (const [rampKey, status] of Object.entries(rampStatus)) {
+    if (!status || status.isExiting) continue
+    const truck = status.truckValue?.trim() || ""
+    const trailer = status.trailerValue?.trim() || ""
+    if (!truck || !trailer) continue
+
+    const trailerForTruck = lookupTrailerByTruck(truck)
+    const truckForTrailer = lookupTruckByTrailer(trailer)
+    const suggested = trailerForTruck
+      ? { truck, trailer: trailerForTruck }
+      : truckForTrailer
+        ? { truck: truckForTrailer, trailer }
+        : null
+    if (!suggested || (sameValue(suggested.truck, truck) && sameValue(suggested.trailer, trailer))) continue
+
+    const rampNumber = Number(rampKey)
+    mismatches[rampNumber] = {
+      rampNumber,
+      truck,
+      trailer,
+      lookupTruck: suggested.truck,
+      lookupTrailer: suggested.trailer,
+    }
+  }
+  return mismatches
+}
+
+// The ramp still holds the values that were flagged
+export function isMismatchCurrent(mismatch: RampLookupMismatch, status: RampStatus | undefined): boolean {
+  return (
+    !!status &&
+    !status.isExiting &&
+    status.truckValue?.trim() === mismatch.truck &&
+    status.trailerValue?.trim() === mismatch.trailer
+  )
+}
@@ -0,0 +1,164 @@
+import type { RampStatus } from "@/components/warehouse-visualization"
+import type { RampPosition, RampSide } from "./layout-definition"
+import { findActiveReservation, matchesReservation, type Reservation } from "./reservations"
+
+// Ramps kept for one carrier or trailer type, e.g. the "o-" trailers
+export interface RampGroup {
+  name: string
+  rampNumbers: number[]
+  // Truck or trailer number prefixes that belong to the group (case-insensitive)
+  prefixes: string[]
+}
+
+export interface RampSuggestionPreferences {
+  // Most preferred side first; sides not listed come last
+  sideOrder: RampSide[]
+  rampGroups: RampGroup[]
+}
+
+export const defaultSuggestionPreferences: RampSuggestionPreferences = {
+  sideOrder: ["left", "right", "bottom"],
+  rampGroups: [],
+}
+
+export interface RampSuggestion {
+  rampNumber: number
+  score: number
+  // Why the ramp ranks where it does, for the dispatcher
+  reasons: string[]
+}
+
+interface SuggestionInput {
+  truck: string
+  trailer: string
+  rampNumbers: number[]
+  rampStatus: Record<number, RampStatus>
+  rampPositions: Record<number, RampPosition>
+  reservations: Reservation[]
+  reservationLeadMinutes: number
+  preferences: RampSuggestionPreferences
+  now?: number
+}
+
+const RESERVATION_SCORE = 1000
+const GROUP_SCORE = 100
+const OTHER_GROUP_PENALTY = -500
+const SIDE_SCORE = 10
+
+const matchesPrefix = (value: string, prefix: string) =>
+  !!value.trim() && !!prefix.trim() && value.trim().toLowerCase().startsWith(prefix.trim().toLowerCase())
+
+// Does the truck or trailer belong to this group?
+export function matchesRampGroup(group: RampGroup, truck: string, trailer: string): boolean {
+  return group.prefixes.some((prefix) => matchesPrefix(truck, prefix) || matchesPrefix(trailer, prefix))
+}
+
+// Rank the free, non-defective ramps for an arriving truck, best first
+export function suggestRamps({
+  truck,
+  trailer,
+  rampNumbers,
+  rampStatus,
+  rampPositions,
+  reservations,
+  reservationLeadMinutes,
+  preferences,
+  now = Date.now(),
+}: SuggestionInput): RampSuggestion[] {
+  const ownGroups = preferences.rampGroups.filter((group) => matchesRampGroup(group, truck, trailer))
+  const suggestions: RampSuggestion[] = []
+
+  for (const rampNumber of rampNumbers) {
+    const status = rampStatus[rampNumber]
+    if (status?.active || status?.red || status?.yellow) continue
+
+    const reasons: string[] = []
+    let score = 0
+
+    // A ramp held for another truck is not free
+    const reservation = findActiveReservation(reservations, rampNumber, now, reservationLeadMinutes)
+    if (reservation) {
+      if (!matchesReservation(reservation, truck, trailer)) continue
+      score += RESERVATION_SCORE
+      reasons.push("Reserved for this truck")
+    }
+
+    const group = ownGroups.find((candidate) => candidate.rampNumbers.includes(rampNumber))
+    if (group) {
+      score += GROUP_SCORE
+      reasons.push(`${group.name} ramp`)
+    } else {
+      const otherGroup = preferences.rampGroups.find((candidate) => candidate.rampNumbers.includes(rampNumber))
+      if (otherGroup) {
+        score += OTHER_GROUP_PENALTY
+        reasons.push(`Kept for ${otherGroup.name}`)
+      }
+    }
+
+    const side = rampPositions[rampNumber]?.side
+    const sideIndex = side ? preferences.sideOrder.indexOf(side) : -1
+    if (sideIndex !== -1) {
+      score += (preferences.sideOrder.length - sideIndex) * SIDE_SCORE
+      if (sideIndex === 0) reasons.push(`Preferred side (${side})`)
+    }
+
+    suggestions.push({ rampNumber, score, reasons })
+  }
+
+  return suggestions.sort((a, b) => b.score - a.score || a.rampNumber - b.rampNumber)
+}
+
+// "1-5, 8, 12" → [1, 2, 3, 4, 5, 8, 12]; every number must be a ramp of the layout, and a range only
+// covers the layout's ramps between its ends
+export function parseRampList(input: string, layoutRampNumbers: number[]): number[] {
+  const layoutRamps = new Set(layoutRampNumbers)
+  const rampNumbers = new Set<number>()
+
+  const checkRamp = (rampNumber: number) => {
+    if (!layoutRamps.has(rampNumber)) {
+      const known = layoutRampNumbers.length > 0 ? ` (ramps ${formatRampList(layoutRampNumbers)})` : ""
+      throw new Error(`Ramp ${rampNumber} is not in the layout${known}`)
+    }
+  }
+
+  for (const part of input.split(",")) {
+    const trimmed = part.trim()
+    if (!trimmed) continue
+
+    const range = trimmed.match(/^(\d+)\s*-\s*(\d+)$/)
+    if (range) {
+      const from = Number(range[1])
+      const to = Number(range[2])
+      checkRamp(from)
+      checkRamp(to)
+      for (const rampNumber of layoutRamps) {
+        if (rampNumber >= Math.min(from, to) && rampNumber <= Math.max(from, to)) {
+          rampNumbers.add(rampNumber)
+        }
+      }
+      continue
+    }
+
+    if (!/^\d+$/.test(trimmed)) {
+      throw new Error(`"${trimmed}" is not a ramp number or range`)
+    }
+    checkRamp(Number(trimmed))
+    rampNumbers.add(Number(trimmed))
+  }
+
+  return Array.from(rampNumbers).sort((a, b) => a - b)
+}
+
+// [1, 2, 3, 4, 5, 8, 12] → "1-5, 8, 12"
+export function formatRampList(rampNumbers: number[]): string {
+  const sorted = [...rampNumbers].sort((a, b) => a - b)
+  const parts: string[] = []
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i]
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++
+    parts.push(sorted[i] === start ? `${start}` : `${start}-${sorted[i]}`)
+  }
+
+  return parts.join(", ")
+}
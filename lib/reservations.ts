@@ -0,0 +1,83 @@
+export type ReservationStatus = "scheduled" | "arrived" | "expired" | "cancelled"
+
+// A truck that dispatch expects at a ramp within a time window
+export interface Reservation {
+  id: string
+  rampNumber: number
+  truck: string
+  trailer: string
+  // ISO timestamps
+  windowStart: string
+  windowEnd: string
+  notes: string
+  status: ReservationStatus
+  createdAt: string
+}
+
+export type NewReservation = Pick<Reservation, "rampNumber" | "truck" | "trailer" | "windowStart" | "windowEnd" | "notes">
+
+// Finished reservations are kept this long for reference
+export const RESERVATION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+// Scheduled and within the window (or starting within leadMinutes)
+export function isReservationActive(reservation: Reservation, now: number, leadMinutes: number): boolean {
+  if (reservation.status !== "scheduled") return false
+  const start = new Date(reservation.windowStart).getTime() - leadMinutes * 60000
+  const end = new Date(reservation.windowEnd).getTime()
+  return now >= start && now <= end
+}
+
+// The reservation a ramp is currently held for, earliest window first
+export function findActiveReservation(
+  reservations: Reservation[],
+  rampNumber: number,
+  now: number,
+  leadMinutes: number,
+): Reservation | null {
+  return (
+    reservations
+      .filter((reservation) => reservation.rampNumber === rampNumber && isReservationActive(reservation, now, leadMinutes))
+      .sort((a, b) => a.windowStart.localeCompare(b.windowStart))[0] || null
+  )
+}
+
+const normalizeNumber = (value: string) => value.trim().toUpperCase()
+
+// Does a typed truck or trailer number belong to this reservation?
+export function matchesReservation(reservation: Reservation, truck: string, trailer: string): boolean {
+  const truckMatch = !!reservation.truck.trim() && normalizeNumber(reservation.truck) === normalizeNumber(truck)
+  const trailerMatch = !!reservation.trailer.trim() && normalizeNumber(reservation.trailer) === normalizeNumber(trailer)
+  return truckMatch || trailerMatch
+}
+
+// Check a new reservation and return a readable problem, or null when it is fine
+export function validateReservation(reservation: NewReservation, existing: Reservation[]): string | null {
+  if (!reservation.truck.trim() && !reservation.trailer.trim()) {
+    return "Enter the expected truck or trailer"
+  }
+
+  const start = new Date(reservation.windowStart).getTime()
+  const end = new Date(reservation.windowEnd).getTime()
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return "Enter a start and end time"
+  }
+  if (end <= start) {
+    return "The window must end after it starts"
+  }
+  if (end < Date.now()) {
+    return "The window is already over"
+  }
+
+  const overlapping = existing.find(
+    (other) =>
+      other.status === "scheduled" &&
+      other.rampNumber === reservation.rampNumber &&
+      new Date(other.windowStart).getTime() < end &&
+      new Date(other.windowEnd).getTime() > start,
+  )
+  if (overlapping) {
+    return `Ramp ${reservation.rampNumber} is already reserved for ${overlapping.truck || overlapping.trailer} in that window`
+  }
+
+  return null
+}
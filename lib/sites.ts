@@ -0,0 +1,25 @@
+export interface Site {
+  id: string
+  name: string
+}
+
+// The original single-site installation; its data keeps the unscoped storage keys
+export const DEFAULT_SITE: Site = {
+  id: "default",
+  name: "Main warehouse",
+}
+
+// localStorage key for per-site data, e.g. truckTrailerLookup:north-hub
+export function scopedStorageKey(key: string, siteId: string): string {
+  return siteId === DEFAULT_SITE.id ? key : `${key}:${siteId}`
+}
+
+// Turn a site name into a stable id ("North Hub" -> "north-hub")
+export function createSiteId(name: string): string {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  return slug || `site-${Date.now().toString(36)}`
+}
@@ -18,8 +18,36 @@ export const supabase = hasSupabaseCredentials
   : null
 
 // Database types
+export interface ReservationRow {
+  id: string
+  site_id: string
+  ramp_number: number
+  truck: string
+  trailer: string
+  window_start: string
+  window_end: string
+  notes: string
+  status: string
+  created_at: string
+}
+
+export interface YardEntryRow {
+  id: string
+  site_id: string
+  truck: string
+  trailer: string
+  arrived_at: string
+}
+
+export interface SiteRow {
+  id: string
+  name: string
+  created_at: string
+}
+
 export interface WarehouseStatusRow {
   id: string
+  site_id: string
   ramp_number: number
   active: boolean
   red: boolean
@@ -29,13 +57,58 @@ export interface WarehouseStatusRow {
   trailer_value: string
   has_truck: boolean
   is_exiting: boolean
+  occupied_since: string | null
+  // RampDefect as JSON, null when the ramp works
+  defect: unknown
+  updated_by: string
   updated_at: string
 }
 
 export interface WarehouseLookupRow {
   id: string
+  site_id: string
   truck: string
   trailer: string
   row_number: number
   updated_at: string
 }
+
+export interface RampEventRow {
+  id: string
+  site_id: string
+  ramp_number: number
+  previous_state: string
+  next_state: string
+  truck: string
+  trailer: string
+  sync_id: string
+  detail: string | null
+  created_at: string
+}
+
+export interface LookupSnapshotRow {
+  id: string
+  site_id: string
+  version: number
+  sync_id: string
+  source: string
+  file_name: string | null
+  note: string | null
+  row_count: number
+  // TruckTrailerMapping[] as JSON
+  entries: unknown
+  created_at: string
+}
+
+export interface LookupAuditRow {
+  id: string
+  site_id: string
+  action: string
+  truck: string
+  old_trailer: string
+  new_trailer: string
+  source: string
+  file_name: string | null
+  sync_id: string
+  created_at: string
+}
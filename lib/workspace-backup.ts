@@ -0,0 +1,336 @@
+import type { RampStatus } from "@/components/warehouse-visualization"
+import { defaultSettings, type WarehouseSettings } from "@/contexts/settings-context"
+import { RAMP_SIDES, parseLayoutDefinition, type WarehouseLayoutDefinition } from "@/lib/layout-definition"
+import { defaultSuggestionPreferences, type RampGroup, type RampSuggestionPreferences } from "@/lib/ramp-suggestions"
+import type { Site } from "@/lib/sites"
+import type { TruckTrailerMapping } from "@/utils/html-parser"
+import { validateImportProfile, type HtmlImportProfile } from "@/utils/import-profiles"
+import type { ImportWarning } from "@/utils/import-report"
+import { LOOKUP_EXPORT_FORMAT, validateEntries } from "@/utils/lookup-export"
+
+// Marks a JSON file as a workspace backup
+export const WORKSPACE_BACKUP_FORMAT = "warehouse-workspace-backup"
+// Version 2 added the layout, the sites and the import profiles
+export const WORKSPACE_BACKUP_VERSION = 2
+
+export type RestoreMode = "merge" | "overwrite"
+
+export interface WorkspaceBackup {
+  format: typeof WORKSPACE_BACKUP_FORMAT
+  version: number
+  siteId: string
+  // ISO timestamp
+  createdAt: string
+  // A section is null when the file did not contain it; restoring leaves that part untouched
+  lookup: {
+    entries: TruckTrailerMapping[]
+    lastUpdated: string | null
+  } | null
+  rampStatus: Record<number, Partial<RampStatus>> | null
+  settings: WarehouseSettings | null
+  // The site's layout, restored before the ramp status so ramps of a custom layout are kept
+  layout: WarehouseLayoutDefinition | null
+  // Sites and custom import profiles are kept per device, not per site
+  sites: Site[] | null
+  importProfiles: HtmlImportProfile[] | null
+}
+
+// What restoring the ramp status did; ramps the layout does not have are skipped
+export interface RampStatusRestoreResult {
+  restoredCount: number
+  skippedRamps: number[]
+}
+
+// A backup read from a file, upgraded to the current version
+export interface ParsedWorkspaceBackup {
+  backup: WorkspaceBackup
+  // Description of the older format the file was upgraded from, if any
+  migratedFrom: string | null
+  // Lookup entries that could not be restored
+  warnings: ImportWarning[]
+}
+
+interface BackupContents {
+  siteId: string
+  lookupData: TruckTrailerMapping[]
+  lookupLastUpdated: Date | null
+  rampStatus: Record<number, RampStatus>
+  settings: WarehouseSettings
+  layout: WarehouseLayoutDefinition
+  sites: Site[]
+  importProfiles: HtmlImportProfile[]
+  createdAt?: Date
+}
+
+export function createWorkspaceBackup({
+  siteId,
+  lookupData,
+  lookupLastUpdated,
+  rampStatus,
+  settings,
+  layout,
+  sites,
+  importProfiles,
+  createdAt,
+}: BackupContents): string {
+  const backup: WorkspaceBackup = {
+    format: WORKSPACE_BACKUP_FORMAT,
+    version: WORKSPACE_BACKUP_VERSION,
+    siteId,
+    createdAt: (createdAt || new Date()).toISOString(),
+    lookup: {
+      entries: lookupData.map(({ truck, trailer, row }) => ({ truck, trailer, row })),
+      lastUpdated: lookupLastUpdated ? lookupLastUpdated.toISOString() : null,
+    },
+    rampStatus,
+    settings,
+    layout,
+    sites,
+    importProfiles: importProfiles.filter((profile) => !profile.builtIn),
+  }
+  return JSON.stringify(backup, null, 2)
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const readLookupEntries = (entries: unknown[]) =>
+  validateEntries(
+    entries.map((entry, index) => {
+      const item = isObject(entry) ? entry : {}
+      return { truck: item.truck, trailer: item.trailer, row: item.row, sourceRow: index + 1 }
+    }),
+  )
+
+// Keep only ramp numbers with a status object; the fields are filled in when the ramps are restored
+const readRampStatus = (value: unknown): Record<number, Partial<RampStatus>> | null => {
+  if (!isObject(value)) return null
+
+  const rampStatus: Record<number, Partial<RampStatus>> = {}
+  for (const [rampKey, status] of Object.entries(value)) {
+    const rampNumber = Number(rampKey)
+    if (Number.isInteger(rampNumber) && isObject(status)) {
+      rampStatus[rampNumber] = status as Partial<RampStatus>
+    }
+  }
+  return rampStatus
+}
+
+const readNumber = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback
+
+const readBoolean = (value: unknown, fallback: boolean) => (typeof value === "boolean" ? value : fallback)
+
+// Groups without a name are dropped; ramp numbers and prefixes of the wrong type are left out
+const readRampGroups = (value: unknown): RampGroup[] => {
+  if (!Array.isArray(value)) return defaultSuggestionPreferences.rampGroups
+
+  return value.filter(isObject).flatMap((group) => {
+    if (typeof group.name !== "string" || !group.name.trim()) return []
+    return [
+      {
+        name: group.name,
+        rampNumbers: Array.isArray(group.rampNumbers)
+          ? group.rampNumbers.filter((rampNumber): rampNumber is number => Number.isInteger(rampNumber))
+          : [],
+        prefixes: Array.isArray(group.prefixes)
+          ? group.prefixes.filter((prefix): prefix is string => typeof prefix === "string")
+          : [],
+      },
+    ]
+  })
+}
+
+const readSuggestionPreferences = (value: unknown): RampSuggestionPreferences => {
+  if (!isObject(value)) return defaultSuggestionPreferences
+
+  // Each known side once, in the saved order
+  const savedOrder: unknown[] | null = Array.isArray(value.sideOrder) ? value.sideOrder : null
+  const sideOrder = savedOrder
+    ? RAMP_SIDES.filter((side) => savedOrder.includes(side)).sort((a, b) => savedOrder.indexOf(a) - savedOrder.indexOf(b))
+    : defaultSuggestionPreferences.sideOrder
+  return { sideOrder, rampGroups: readRampGroups(value.rampGroups) }
+}
+
+// Each setting is checked on its own; missing or malformed ones get their default
+const readSettings = (value: unknown): WarehouseSettings | null => {
+  if (!isObject(value)) return null
+
+  return {
+    dwellThresholdMinutes: readNumber(value.dwellThresholdMinutes, defaultSettings.dwellThresholdMinutes),
+    confirmRampRelease: readBoolean(value.confirmRampRelease, defaultSettings.confirmRampRelease),
+    reservationLeadMinutes: readNumber(value.reservationLeadMinutes, defaultSettings.reservationLeadMinutes),
+    rampSuggestions: readSuggestionPreferences(value.rampSuggestions),
+  }
+}
+
+const readLayout = (value: unknown): WarehouseLayoutDefinition | null => {
+  if (value === undefined || value === null) return null
+  try {
+    return parseLayoutDefinition(value)
+  } catch (e) {
+    throw new Error(`The backup's layout is invalid: ${e instanceof Error ? e.message : "unknown error"}`)
+  }
+}
+
+const readSites = (value: unknown): Site[] | null => {
+  if (!Array.isArray(value)) return null
+  return value
+    .filter(isObject)
+    .filter((site) => typeof site.id === "string" && site.id && typeof site.name === "string" && site.name.trim())
+    .map((site) => ({ id: site.id as string, name: site.name as string }))
+}
+
+const readNullableNumber = (value: unknown): number | null => (typeof value === "number" ? value : null)
+
+// Profiles with fields of the wrong type or rules that do not compile are left out
+const readImportProfiles = (value: unknown): HtmlImportProfile[] | null => {
+  if (!Array.isArray(value)) return null
+
+  return value.filter(isObject).flatMap((item) => {
+    const { id, name, truckSelector, truckPattern, trailerPattern, trailerCase } = item
+    if (
+      typeof id !== "string" ||
+      typeof name !== "string" ||
+      typeof truckSelector !== "string" ||
+      typeof truckPattern !== "string" ||
+      typeof trailerPattern !== "string" ||
+      (trailerCase !== "upper" && trailerCase !== "lower" && trailerCase !== "keep")
+    ) {
+      return []
+    }
+
+    const profile: HtmlImportProfile = {
+      id,
+      name,
+      truckSelector,
+      truckPattern,
+      truckMin: readNullableNumber(item.truckMin),
+      truckMax: readNullableNumber(item.truckMax),
+      truckPadLength: readNumber(item.truckPadLength, 0),
+      trailerColumn: readNumber(item.trailerColumn, 0),
+      trailerPattern,
+      trailerCase,
+      lookAheadRows: readNumber(item.lookAheadRows, 1),
+    }
+    return validateImportProfile(profile) ? [] : [profile]
+  })
+}
+
+// A lookup database export only holds the lookup data
+function migrateLookupExport(parsed: Record<string, unknown>): ParsedWorkspaceBackup {
+  if (!Array.isArray(parsed.entries)) {
+    throw new Error("The lookup export has no entries")
+  }
+  const { mappings, warnings } = readLookupEntries(parsed.entries)
+
+  return {
+    backup: {
+      format: WORKSPACE_BACKUP_FORMAT,
+      version: WORKSPACE_BACKUP_VERSION,
+      siteId: typeof parsed.siteId === "string" ? parsed.siteId : "",
+      createdAt: typeof parsed.exportedAt === "string" ? parsed.exportedAt : "",
+      lookup: {
+        entries: mappings,
+        lastUpdated: typeof parsed.lastUpdated === "string" ? parsed.lastUpdated : null,
+      },
+      rampStatus: null,
+      settings: null,
+      layout: null,
+      sites: null,
+      importProfiles: null,
+    },
+    migratedFrom: `lookup export version ${parsed.version}`,
+    warnings,
+  }
+}
+
+// Read a backup file, checking the format and version and upgrading older formats
+export function parseWorkspaceBackup(text: string): ParsedWorkspaceBackup {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+  if (!isObject(parsed)) {
+    throw new Error("The file is not a workspace backup")
+  }
+
+  if (parsed.format === LOOKUP_EXPORT_FORMAT) {
+    return migrateLookupExport(parsed)
+  }
+  if (parsed.format !== WORKSPACE_BACKUP_FORMAT) {
+    throw new Error("The file is not a workspace backup")
+  }
+  if (typeof parsed.version !== "number" || !Number.isInteger(parsed.version) || parsed.version < 1) {
+    throw new Error("The backup has no valid version")
+  }
+  if (parsed.version > WORKSPACE_BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${parsed.version}; update the app to restore it`)
+  }
+
+  let lookup: WorkspaceBackup["lookup"] = null
+  let warnings: ImportWarning[] = []
+  if (isObject(parsed.lookup)) {
+    if (!Array.isArray(parsed.lookup.entries)) {
+      throw new Error("The backup's lookup data has no entries")
+    }
+    const result = readLookupEntries(parsed.lookup.entries)
+    warnings = result.warnings
+    lookup = {
+      entries: result.mappings,
+      lastUpdated: typeof parsed.lookup.lastUpdated === "string" ? parsed.lookup.lastUpdated : null,
+    }
+  }
+
+  return {
+    backup: {
+      format: WORKSPACE_BACKUP_FORMAT,
+      version: WORKSPACE_BACKUP_VERSION,
+      siteId: typeof parsed.siteId === "string" ? parsed.siteId : "",
+      createdAt: typeof parsed.createdAt === "string" ? parsed.createdAt : "",
+      lookup,
+      rampStatus: readRampStatus(parsed.rampStatus),
+      settings: readSettings(parsed.settings),
+      layout: readLayout(parsed.layout),
+      sites: readSites(parsed.sites),
+      importProfiles: readImportProfiles(parsed.importProfiles),
+    },
+    migratedFrom: parsed.version < WORKSPACE_BACKUP_VERSION ? `workspace backup version ${parsed.version}` : null,
+    warnings,
+  }
+}
+
+// Overwrite takes the backup's settings; merge keeps the current ones and adds ramp groups it does not have yet
+export function restoreSettings(
+  current: WarehouseSettings,
+  restored: WarehouseSettings,
+  mode: RestoreMode,
+): WarehouseSettings {
+  if (mode === "overwrite") return restored
+
+  const groupNames = new Set(current.rampSuggestions.rampGroups.map((group) => group.name))
+  const addedGroups = restored.rampSuggestions.rampGroups.filter((group) => !groupNames.has(group.name))
+  if (addedGroups.length === 0) return current
+
+  return {
+    ...current,
+    rampSuggestions: {
+      ...current.rampSuggestions,
+      rampGroups: [...current.rampSuggestions.rampGroups, ...addedGroups],
+    },
+  }
+}
+
+// Overwrite replaces the custom profiles with the backup's; merge only adds the ones this device does not have
+export function restoreImportProfiles(
+  current: HtmlImportProfile[],
+  restored: HtmlImportProfile[],
+  mode: RestoreMode,
+): HtmlImportProfile[] {
+  if (mode === "overwrite") return restored
+
+  const profileIds = new Set(current.map((profile) => profile.id))
+  return [...current, ...restored.filter((profile) => !profileIds.has(profile.id))]
+}
@@ -1,7 +1,17 @@
+-- Create sites table (every other table is scoped by site_id)
+CREATE TABLE IF NOT EXISTS sites (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO sites (id, name) VALUES ('default', 'Main warehouse') ON CONFLICT (id) DO NOTHING;
+
 -- Create ramp_status table
 CREATE TABLE IF NOT EXISTS ramp_status (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-  ramp_number INTEGER UNIQUE NOT NULL,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  ramp_number INTEGER NOT NULL,
   active BOOLEAN DEFAULT FALSE,
   red BOOLEAN DEFAULT FALSE,
   yellow BOOLEAN DEFAULT FALSE,
@@ -10,31 +20,224 @@ CREATE TABLE IF NOT EXISTS ramp_status (
   trailer_value TEXT DEFAULT '',
   has_truck BOOLEAN DEFAULT FALSE,
   is_exiting BOOLEAN DEFAULT FALSE,
+  occupied_since TIMESTAMP WITH TIME ZONE,
+  defect JSONB,
+  updated_by TEXT DEFAULT '',
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Add columns to ramp_status tables created before they existed
+ALTER TABLE ramp_status ADD COLUMN IF NOT EXISTS updated_by TEXT DEFAULT '';
+ALTER TABLE ramp_status ADD COLUMN IF NOT EXISTS occupied_since TIMESTAMP WITH TIME ZONE;
+ALTER TABLE ramp_status ADD COLUMN IF NOT EXISTS site_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE ramp_status ADD COLUMN IF NOT EXISTS defect JSONB;
+ALTER TABLE ramp_status DROP CONSTRAINT IF EXISTS ramp_status_ramp_number_key;
+
 -- Create lookup_data table
 CREATE TABLE IF NOT EXISTS lookup_data (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
   truck TEXT NOT NULL,
   trailer TEXT NOT NULL,
   row_number INTEGER NOT NULL,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+ALTER TABLE lookup_data ADD COLUMN IF NOT EXISTS site_id TEXT NOT NULL DEFAULT 'default';
+
+-- Create ramp_events table (append-only occupancy history)
+CREATE TABLE IF NOT EXISTS ramp_events (
+  id UUID PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  ramp_number INTEGER NOT NULL,
+  previous_state TEXT NOT NULL,
+  next_state TEXT NOT NULL,
+  truck TEXT DEFAULT '',
+  trailer TEXT DEFAULT '',
+  sync_id TEXT DEFAULT '',
+  detail TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE ramp_events ADD COLUMN IF NOT EXISTS site_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE ramp_events ADD COLUMN IF NOT EXISTS detail TEXT;
+
+-- Create lookup_snapshots table (append-only versions of the lookup data, for rollback)
+CREATE TABLE IF NOT EXISTS lookup_snapshots (
+  id UUID PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  version INTEGER NOT NULL,
+  sync_id TEXT DEFAULT '',
+  source TEXT NOT NULL,
+  file_name TEXT,
+  note TEXT,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  entries JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create lookup_audit table (append-only record of every change to a truck-trailer pair)
+CREATE TABLE IF NOT EXISTS lookup_audit (
+  id UUID PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  action TEXT NOT NULL,
+  truck TEXT NOT NULL,
+  old_trailer TEXT DEFAULT '',
+  new_trailer TEXT DEFAULT '',
+  source TEXT NOT NULL,
+  file_name TEXT,
+  sync_id TEXT DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create ramp_reservations table (trucks planned ahead by dispatch)
+CREATE TABLE IF NOT EXISTS ramp_reservations (
+  id UUID PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  ramp_number INTEGER NOT NULL,
+  truck TEXT DEFAULT '',
+  trailer TEXT DEFAULT '',
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  notes TEXT DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create yard_queue table (trucks waiting in the yard for a ramp)
+CREATE TABLE IF NOT EXISTS yard_queue (
+  id UUID PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  truck TEXT DEFAULT '',
+  trailer TEXT DEFAULT '',
+  arrived_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better performance
-CREATE INDEX IF NOT EXISTS idx_ramp_status_ramp_number ON ramp_status(ramp_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ramp_status_site_ramp ON ramp_status(site_id, ramp_number);
 CREATE INDEX IF NOT EXISTS idx_lookup_data_truck ON lookup_data(truck);
 CREATE INDEX IF NOT EXISTS idx_lookup_data_trailer ON lookup_data(trailer);
+CREATE INDEX IF NOT EXISTS idx_ramp_reservations_site_window ON ramp_reservations(site_id, window_end);
+CREATE INDEX IF NOT EXISTS idx_yard_queue_site_arrived ON yard_queue(site_id, arrived_at);
+CREATE INDEX IF NOT EXISTS idx_ramp_events_ramp_created ON ramp_events(site_id, ramp_number, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lookup_audit_site_created ON lookup_audit(site_id, created_at DESC);
+
+-- lookup_data is keyed on (site, truck) so syncs can upsert instead of wiping the table
+DELETE FROM lookup_data a USING lookup_data b
+  WHERE a.site_id = b.site_id AND a.truck = b.truck AND a.ctid < b.ctid;
+DROP INDEX IF EXISTS idx_lookup_data_truck_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lookup_data_site_truck ON lookup_data(site_id, truck);
+
+-- Lookup snapshot versions are unique per site; versions two devices saved at the same time are renumbered
+UPDATE lookup_snapshots s SET version = numbered.version
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY site_id ORDER BY version, created_at, id) AS version
+    FROM lookup_snapshots
+  ) numbered
+  WHERE s.id = numbered.id AND s.version <> numbered.version;
+DROP INDEX IF EXISTS idx_lookup_snapshots_site_version;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lookup_snapshots_site_version_unique ON lookup_snapshots(site_id, version DESC);
+
+-- The server numbers the snapshots: the version a client sends is only its local guess
+CREATE OR REPLACE FUNCTION assign_lookup_snapshot_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- One insert per site at a time, so concurrent inserts cannot take the same number
+  PERFORM pg_advisory_xact_lock(hashtext('lookup_snapshots:' || NEW.site_id));
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version FROM lookup_snapshots WHERE site_id = NEW.site_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lookup_snapshots_assign_version ON lookup_snapshots;
+CREATE TRIGGER lookup_snapshots_assign_version
+  BEFORE INSERT ON lookup_snapshots
+  FOR EACH ROW EXECUTE FUNCTION assign_lookup_snapshot_version();
+
+-- Apply a lookup diff for one site in one transaction, so other clients never see a partial sync
+DROP FUNCTION IF EXISTS apply_lookup_changes(JSONB, TEXT[]);
+CREATE OR REPLACE FUNCTION apply_lookup_changes(target_site TEXT, upserts JSONB, deleted_trucks TEXT[])
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM lookup_data WHERE site_id = target_site AND truck = ANY(deleted_trucks);
+
+  INSERT INTO lookup_data (site_id, truck, trailer, row_number, updated_at)
+  SELECT target_site, item->>'truck', item->>'trailer', (item->>'row_number')::INTEGER, NOW()
+  FROM jsonb_array_elements(upserts) AS item
+  ON CONFLICT (site_id, truck) DO UPDATE
+    SET trailer = EXCLUDED.trailer, row_number = EXCLUDED.row_number, updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- The server stamps ramp_status.updated_at, so changes are ordered by when they were stored rather than by
+-- device clocks; clients ignore realtime rows older than the ones they know
+DROP TRIGGER IF EXISTS ramp_status_reject_stale ON ramp_status;
+DROP FUNCTION IF EXISTS reject_stale_ramp_status();
+
+CREATE OR REPLACE FUNCTION stamp_ramp_status_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := clock_timestamp();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ramp_status_stamp_updated_at ON ramp_status;
+CREATE TRIGGER ramp_status_stamp_updated_at
+  BEFORE INSERT OR UPDATE ON ramp_status
+  FOR EACH ROW EXECUTE FUNCTION stamp_ramp_status_updated_at();
 
 -- Enable Row Level Security (RLS)
+ALTER TABLE sites ENABLE ROW LEVEL SECURITY;
 ALTER TABLE ramp_status ENABLE ROW LEVEL SECURITY;
 ALTER TABLE lookup_data ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ramp_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lookup_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lookup_audit ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ramp_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE yard_queue ENABLE ROW LEVEL SECURITY;
 
--- Create policies to allow all operations (adjust as needed for your security requirements)
+-- Create policies to allow all operations (adjust as needed for your security requirements).
+-- Dropped first so the script can be re-run on an existing database
+DROP POLICY IF EXISTS "Allow all operations on sites" ON sites;
+CREATE POLICY "Allow all operations on sites" ON sites FOR ALL USING (true);
+DROP POLICY IF EXISTS "Allow all operations on ramp_status" ON ramp_status;
 CREATE POLICY "Allow all operations on ramp_status" ON ramp_status FOR ALL USING (true);
+DROP POLICY IF EXISTS "Allow all operations on lookup_data" ON lookup_data;
 CREATE POLICY "Allow all operations on lookup_data" ON lookup_data FOR ALL USING (true);
+-- ramp_events is append-only: no update or delete policies
+DROP POLICY IF EXISTS "Allow reading ramp_events" ON ramp_events;
+CREATE POLICY "Allow reading ramp_events" ON ramp_events FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow inserting ramp_events" ON ramp_events;
+CREATE POLICY "Allow inserting ramp_events" ON ramp_events FOR INSERT WITH CHECK (true);
+-- lookup_snapshots is append-only as well
+DROP POLICY IF EXISTS "Allow reading lookup_snapshots" ON lookup_snapshots;
+CREATE POLICY "Allow reading lookup_snapshots" ON lookup_snapshots FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow inserting lookup_snapshots" ON lookup_snapshots;
+CREATE POLICY "Allow inserting lookup_snapshots" ON lookup_snapshots FOR INSERT WITH CHECK (true);
+-- lookup_audit is append-only as well
+DROP POLICY IF EXISTS "Allow reading lookup_audit" ON lookup_audit;
+CREATE POLICY "Allow reading lookup_audit" ON lookup_audit FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow inserting lookup_audit" ON lookup_audit;
+CREATE POLICY "Allow inserting lookup_audit" ON lookup_audit FOR INSERT WITH CHECK (true);
+DROP POLICY IF EXISTS "Allow all operations on ramp_reservations" ON ramp_reservations;
+CREATE POLICY "Allow all operations on ramp_reservations" ON ramp_reservations FOR ALL USING (true);
+DROP POLICY IF EXISTS "Allow all operations on yard_queue" ON yard_queue;
+CREATE POLICY "Allow all operations on yard_queue" ON yard_queue FOR ALL USING (true);
 
--- Enable realtime for both tables
-ALTER PUBLICATION supabase_realtime ADD TABLE ramp_status;
-ALTER PUBLICATION supabase_realtime ADD TABLE lookup_data;
+-- Enable realtime for the shared tables (skipping tables an earlier run already added)
+DO $$
+DECLARE
+  shared_table TEXT;
+BEGIN
+  FOREACH shared_table IN ARRAY ARRAY['ramp_status', 'lookup_data', 'ramp_reservations', 'yard_queue', 'lookup_snapshots']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = shared_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', shared_table);
+    END IF;
+  END LOOP;
+END;
+$$;
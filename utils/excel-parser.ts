@@ -1,4 +1,5 @@
 import * as XLSX from "xlsx"
+import type { ImportWarning, ParseResult } from "./import-report"
 
 // Define the structure of our truck-trailer mapping
 export interface TruckTrailerMapping {
@@ -7,8 +8,36 @@ export interface TruckTrailerMapping {
   row: number
 }
 
-// Parse Excel file and extract truck-trailer mappings
-export async function parseExcelFile(file: File): Promise<TruckTrailerMapping[]> {
+// Which sheet and columns hold the truck-trailer pairs
+export interface SpreadsheetImportOptions {
+  sheetName: string | null // null = first sheet
+  truckColumn: number // 0-based (0 = column A)
+  trailerColumn: number
+  hasHeaderRow: boolean
+  // Zero-pad numeric truck numbers to this length so they match the HTML export (0 keeps them as they are)
+  truckPadLength: number
+}
+
+export const defaultSpreadsheetOptions: SpreadsheetImportOptions = {
+  sheetName: null,
+  truckColumn: 0,
+  trailerColumn: 1,
+  hasHeaderRow: true,
+  truckPadLength: 3,
+}
+
+// First rows of a sheet, for picking the columns
+export interface SpreadsheetSheetPreview {
+  name: string
+  rows: string[][]
+  columnCount: number
+}
+
+// How many rows the column picker shows per sheet
+const PREVIEW_ROW_COUNT = 5
+
+// Read an .xlsx, .xls or .csv file into a workbook
+function readWorkbook(file: File): Promise<XLSX.WorkBook> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
 
@@ -25,37 +54,7 @@ export async function parseExcelFile(file: File): Promise<TruckTrailerMapping[]>
           throw new Error("Excel file contains no sheets")
         }
 
-        // Assume the first sheet contains our data
-        const firstSheetName = workbook.SheetNames[0]
-        const worksheet = workbook.Sheets[firstSheetName]
-
-        if (!worksheet) {
-          throw new Error("Failed to read worksheet")
-        }
-
-        // Convert to JSON for easier processing
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false })
-
-        const mappings: TruckTrailerMapping[] = []
-
-        // Process each row (skip header row)
-        for (let i = 1; i < jsonData.length; i++) {
-          const row = jsonData[i]
-          if (!row) continue
-
-          // Get truck and trailer values (columns A and B)
-          const truck = row[0]?.toString().trim() || ""
-          const trailer = row[1]?.toString().trim() || ""
-
-          // Add to mappings (even if one is empty)
-          mappings.push({
-            truck,
-            trailer,
-            row: i + 1, // Excel rows are 1-based
-          })
-        }
-
-        resolve(mappings)
+        resolve(workbook)
       } catch (error) {
         console.error("Excel parsing error:", error)
         reject(error instanceof Error ? error : new Error("Unknown error parsing Excel file"))
@@ -71,6 +70,79 @@ export async function parseExcelFile(file: File): Promise<TruckTrailerMapping[]>
   })
 }
 
+const sheetRows = (worksheet: XLSX.WorkSheet): unknown[][] =>
+  XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: false, blankrows: true })
+
+const cellText = (cell: unknown) => (cell === undefined || cell === null ? "" : String(cell))
+
+// Spreadsheet column letter for a 0-based index (0 → A)
+export const columnLabel = (index: number) => XLSX.utils.encode_col(index)
+
+// List the sheets with their first rows, so the user can pick the sheet and columns
+export async function previewSpreadsheet(file: File): Promise<SpreadsheetSheetPreview[]> {
+  const workbook = await readWorkbook(file)
+
+  return workbook.SheetNames.map((name) => {
+    const rows = sheetRows(workbook.Sheets[name])
+    return {
+      name,
+      rows: rows.slice(0, PREVIEW_ROW_COUNT).map((row) => (row || []).map(cellText)),
+      columnCount: rows.reduce((max, row) => Math.max(max, row?.length || 0), 0),
+    }
+  })
+}
+
+// Parse Excel file and extract truck-trailer mappings, with a warning for every row with an empty cell
+export async function parseExcelFile(
+  file: File,
+  options: SpreadsheetImportOptions = defaultSpreadsheetOptions,
+): Promise<ParseResult<TruckTrailerMapping>> {
+  const workbook = await readWorkbook(file)
+
+  const sheetName = options.sheetName ?? workbook.SheetNames[0]
+  const worksheet = workbook.Sheets[sheetName]
+
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" not found`)
+  }
+
+  // Convert to JSON for easier processing
+  const jsonData = sheetRows(worksheet)
+
+  const mappings: TruckTrailerMapping[] = []
+  const warnings: ImportWarning[] = []
+
+  for (let i = options.hasHeaderRow ? 1 : 0; i < jsonData.length; i++) {
+    const row = jsonData[i]
+    if (!row) continue
+
+    const truckText = cellText(row[options.truckColumn]).trim()
+    const trailer = cellText(row[options.trailerColumn]).trim()
+    const raw = row.map(cellText).join(" | ")
+    const truck =
+      options.truckPadLength > 0 && /^\d+$/.test(truckText) ? truckText.padStart(options.truckPadLength, "0") : truckText
+
+    // Blank rows are just spacing
+    if (!truck && !trailer) {
+      if (raw.replace(/\|/g, "").trim()) {
+        warnings.push({ row: i + 1, reason: "Truck and trailer cells are empty", raw })
+      }
+      continue
+    }
+    if (!truck) warnings.push({ row: i + 1, reason: "Truck cell is empty", raw })
+    if (!trailer) warnings.push({ row: i + 1, reason: "Trailer cell is empty", raw })
+
+    // Add to mappings (even if one is empty)
+    mappings.push({
+      truck,
+      trailer,
+      row: i + 1, // Excel rows are 1-based
+    })
+  }
+
+  return { mappings, warnings }
+}
+
 // Generate test data for quick testing
 export function generateTestData(): TruckTrailerMapping[] {
   const testData: TruckTrailerMapping[] = [
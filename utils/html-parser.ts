@@ -1,5 +1,13 @@
 import { parseDocument } from "htmlparser2"
 import { DomUtils } from "htmlparser2"
+import {
+  DEFAULT_IMPORT_PROFILE,
+  compileImportProfile,
+  normalizeTrailer,
+  normalizeTruck,
+  type HtmlImportProfile,
+} from "./import-profiles"
+import type { ImportWarning, ParseResult } from "./import-report"
 
 // Define the structure of our truck-trailer mapping
 export interface TruckTrailerMapping {
@@ -8,8 +16,12 @@ export interface TruckTrailerMapping {
   row: number
 }
 
-// Parse HTML file and extract truck-trailer mappings
-export async function parseHtmlFile(file: File): Promise<TruckTrailerMapping[]> {
+// Parse HTML file and extract truck-trailer mappings using the rules of an import profile,
+// with a warning for every truck row that was skipped
+export async function parseHtmlFile(
+  file: File,
+  profile: HtmlImportProfile = DEFAULT_IMPORT_PROFILE,
+): Promise<ParseResult<TruckTrailerMapping>> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
 
@@ -21,47 +33,70 @@ export async function parseHtmlFile(file: File): Promise<TruckTrailerMapping[]>
 
         const htmlText = e.target.result as string
         const dom = parseDocument(htmlText)
+        const { truckSelector, truckPattern, trailerPattern } = compileImportProfile(profile)
 
         const trs = DomUtils.findAll((elem) => elem.name === "tr", dom.children)
         const truckTrailerPairs: TruckTrailerMapping[] = []
-        const seenTrucks = new Set<string>()
+        const warnings: ImportWarning[] = []
+        // Truck → table row it was first seen in
+        const seenTrucks = new Map<string, number>()
 
         for (let i = 0; i < trs.length; i++) {
-          const span = DomUtils.findOne(
+          const truckElement = DomUtils.findOne(
             (el) =>
-              el.name === "span" &&
-              (el.attribs?.class === "x14" || el.attribs?.class === "x15") &&
-              /^\d{2,3}$/.test(DomUtils.textContent(el).trim()),
+              truckSelector.some(
+                (part) =>
+                  el.name === part.tag &&
+                  (part.className === null || (el.attribs?.class || "").split(/\s+/).includes(part.className)),
+              ) && truckPattern.test(DomUtils.textContent(el).trim()),
             [trs[i]],
           )
 
-          if (span) {
-            const truckText = DomUtils.textContent(span).trim()
-            const truckNum = Number.parseInt(truckText, 10)
+          if (truckElement) {
+            const truckText = DomUtils.textContent(truckElement).trim()
+            const truckID = normalizeTruck(truckText, profile)
+            const sourceRow = i + 1
 
-            if (truckNum >= 80 && truckNum <= 399) {
-              const truckID = truckNum.toString().padStart(3, "0")
-
-              if (seenTrucks.has(truckID)) continue
-              seenTrucks.add(truckID)
+            if (!truckID) {
+              warnings.push({
+                row: sourceRow,
+                reason: `Truck number outside ${profile.truckMin ?? "any"}-${profile.truckMax ?? "any"}`,
+                raw: truckText,
+              })
+            } else {
+              const firstRow = seenTrucks.get(truckID)
+              if (firstRow !== undefined) {
+                warnings.push({ row: sourceRow, reason: `Duplicate truck (first seen in row ${firstRow})`, raw: truckText })
+                continue
+              }
+              seenTrucks.set(truckID, sourceRow)
 
               let trailer = ""
 
               // Look for trailer in subsequent rows
-              for (let j = 1; j <= 20; j++) {
+              for (let j = 1; j <= profile.lookAheadRows; j++) {
                 const nextTr = trs[i + j]
                 if (!nextTr) break
 
                 const tds = DomUtils.findAll((el) => el.name === "td", [nextTr])
-                if (tds.length >= 8) {
-                  const tdText = DomUtils.textContent(tds[7]).trim()
-                  if (/^o-\d{3}$/i.test(tdText)) {
-                    trailer = tdText.toUpperCase()
+                if (tds.length > profile.trailerColumn) {
+                  const tdText = DomUtils.textContent(tds[profile.trailerColumn]).trim()
+                  if (trailerPattern.test(tdText)) {
+                    trailer = normalizeTrailer(tdText, profile)
                     break
                   }
                 }
               }
 
+              if (!trailer) {
+                warnings.push({
+                  row: sourceRow,
+                  reason: `No trailer found within ${profile.lookAheadRows} rows`,
+                  raw: truckText,
+                })
+                continue
+              }
+
               truckTrailerPairs.push({
                 truck: truckID,
                 trailer: trailer,
@@ -71,7 +106,7 @@ export async function parseHtmlFile(file: File): Promise<TruckTrailerMapping[]>
           }
         }
 
-        resolve(truckTrailerPairs)
+        resolve({ mappings: truckTrailerPairs, warnings })
       } catch (error) {
         console.error("HTML parsing error:", error)
         reject(error instanceof Error ? error : new Error("Unknown error parsing HTML file"))
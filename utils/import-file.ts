@@ -0,0 +1,72 @@
+import { parseHtmlFile, type TruckTrailerMapping } from "./html-parser"
+import { parseExcelFile, type SpreadsheetImportOptions } from "./excel-parser"
+import { DEFAULT_IMPORT_PROFILE, type HtmlImportProfile } from "./import-profiles"
+import type { ParseResult } from "./import-report"
+import { parseLookupExportFile } from "./lookup-export"
+
+export type ImportFileType = "html" | "spreadsheet" | "lookup-export"
+
+const fileTypesByExtension: Record<string, ImportFileType> = {
+  html: "html",
+  htm: "html",
+  xlsx: "spreadsheet",
+  xls: "spreadsheet",
+  csv: "spreadsheet",
+  json: "lookup-export",
+}
+
+export const IMPORT_FILE_ACCEPT = Object.keys(fileTypesByExtension)
+  .map((extension) => `.${extension}`)
+  .join(",")
+
+// File type from the extension, or null when it cannot be imported.
+// A .csv can also be a lookup export; see isLookupExportFile
+export function detectImportFileType(fileName: string): ImportFileType | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() || ""
+  return fileTypesByExtension[extension] || null
+}
+
+// How to read the file: the HTML profile or the spreadsheet sheet and columns
+export interface ImportOptions {
+  profile?: HtmlImportProfile
+  spreadsheet?: SpreadsheetImportOptions
+  // Read a .csv as a lookup export instead of a spreadsheet
+  lookupExport?: boolean
+}
+
+// File type the file is read as, taking a .csv read as a lookup export into account
+export function resolveImportFileType(fileName: string, options: ImportOptions = {}): ImportFileType | null {
+  return options.lookupExport ? "lookup-export" : detectImportFileType(fileName)
+}
+
+// Parse any supported lookup file into truck-trailer mappings
+export async function parseImportFile(
+  file: File,
+  options: ImportOptions = {},
+): Promise<ParseResult<TruckTrailerMapping>> {
+  const fileType = resolveImportFileType(file.name, options)
+
+  if (fileType === "lookup-export") {
+    return parseLookupExportFile(file)
+  }
+  if (fileType === "html") {
+    return parseHtmlFile(file, options.profile || DEFAULT_IMPORT_PROFILE)
+  }
+  if (fileType === "spreadsheet") {
+    return parseExcelFile(file, options.spreadsheet)
+  }
+  throw new Error(`Unsupported file type: ${file.name}. Use ${IMPORT_FILE_ACCEPT}`)
+}
+
+// Short description of where the data came from, for the preview and logs
+export function describeImportSource(file: File, options: ImportOptions = {}): string {
+  const fileType = resolveImportFileType(file.name, options)
+  if (fileType === "lookup-export") {
+    return "lookup export"
+  }
+  if (fileType === "spreadsheet") {
+    const sheet = options.spreadsheet?.sheetName
+    return sheet ? `sheet "${sheet}"` : "first sheet"
+  }
+  return `profile "${(options.profile || DEFAULT_IMPORT_PROFILE).name}"`
+}
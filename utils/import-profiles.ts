@@ -0,0 +1,130 @@
+// How to read truck-trailer pairs out of a TMS HTML export
+export interface HtmlImportProfile {
+  id: string
+  name: string
+  // Elements holding a truck number, as comma-separated "tag.class" alternatives, e.g. "span.x14, span.x15"
+  truckSelector: string
+  // Text of a truck element must match this (regex source, case-insensitive)
+  truckPattern: string
+  // Numeric truck numbers outside this range are skipped; null means no limit
+  truckMin: number | null
+  truckMax: number | null
+  // Zero-pad numeric truck numbers to this length (0 keeps them as they are)
+  truckPadLength: number
+  // Table cell (0-based) in the following rows that holds the trailer
+  trailerColumn: number
+  // Trailer text must match this (regex source, case-insensitive)
+  trailerPattern: string
+  trailerCase: "upper" | "lower" | "keep"
+  // How many rows after the truck row to search for its trailer
+  lookAheadRows: number
+  // The built-in profile cannot be edited or deleted
+  builtIn?: boolean
+}
+
+export const DEFAULT_IMPORT_PROFILE_ID = "default"
+
+// The rules of the original TMS export template
+export const DEFAULT_IMPORT_PROFILE: HtmlImportProfile = {
+  id: DEFAULT_IMPORT_PROFILE_ID,
+  name: "TMS export (default)",
+  truckSelector: "span.x14, span.x15",
+  truckPattern: "^\\d{2,3}$",
+  truckMin: 80,
+  truckMax: 399,
+  truckPadLength: 3,
+  trailerColumn: 7,
+  trailerPattern: "^o-\\d{3}$",
+  trailerCase: "upper",
+  lookAheadRows: 20,
+  builtIn: true,
+}
+
+export interface SelectorPart {
+  tag: string
+  className: string | null
+}
+
+// "span.x14, td" → [{ tag: "span", className: "x14" }, { tag: "td", className: null }]
+export function parseSelector(selector: string): SelectorPart[] {
+  return selector
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [tag, className] = part.split(".")
+      return { tag: tag.trim().toLowerCase(), className: className?.trim() || null }
+    })
+}
+
+const compilePattern = (pattern: string, field: string): RegExp => {
+  try {
+    return new RegExp(pattern, "i")
+  } catch {
+    throw new Error(`${field}: "${pattern}" is not a valid regular expression`)
+  }
+}
+
+// Compiled form of a profile, ready for the parser
+export interface CompiledImportProfile {
+  profile: HtmlImportProfile
+  truckSelector: SelectorPart[]
+  truckPattern: RegExp
+  trailerPattern: RegExp
+}
+
+export function compileImportProfile(profile: HtmlImportProfile): CompiledImportProfile {
+  return {
+    profile,
+    truckSelector: parseSelector(profile.truckSelector),
+    truckPattern: compilePattern(profile.truckPattern, "Truck pattern"),
+    trailerPattern: compilePattern(profile.trailerPattern, "Trailer pattern"),
+  }
+}
+
+// Apply the profile's normalisation to a matched truck number, or null when it is out of range
+export function normalizeTruck(text: string, profile: HtmlImportProfile): string | null {
+  const value = text.trim()
+  if (!/^\d+$/.test(value)) return value
+
+  const truckNum = Number.parseInt(value, 10)
+  if (profile.truckMin !== null && truckNum < profile.truckMin) return null
+  if (profile.truckMax !== null && truckNum > profile.truckMax) return null
+  return profile.truckPadLength > 0 ? truckNum.toString().padStart(profile.truckPadLength, "0") : value
+}
+
+export function normalizeTrailer(text: string, profile: HtmlImportProfile): string {
+  const value = text.trim()
+  if (profile.trailerCase === "upper") return value.toUpperCase()
+  if (profile.trailerCase === "lower") return value.toLowerCase()
+  return value
+}
+
+const isWholeNumber = (value: unknown, min: number) => typeof value === "number" && Number.isInteger(value) && value >= min
+
+// Check a profile and return a readable problem, or null when it is fine
+export function validateImportProfile(profile: HtmlImportProfile): string | null {
+  if (!profile.name.trim()) return "Enter a profile name"
+
+  const selector = parseSelector(profile.truckSelector)
+  if (selector.length === 0 || selector.some((part) => !/^[a-z][a-z0-9]*$/.test(part.tag))) {
+    return 'Truck selector must look like "span.x14, span.x15"'
+  }
+
+  try {
+    compileImportProfile(profile)
+  } catch (e) {
+    return e instanceof Error ? e.message : "Invalid pattern"
+  }
+
+  if (profile.truckMin !== null && !isWholeNumber(profile.truckMin, 0)) return "Lowest truck number must be a whole number"
+  if (profile.truckMax !== null && !isWholeNumber(profile.truckMax, 0)) return "Highest truck number must be a whole number"
+  if (profile.truckMin !== null && profile.truckMax !== null && profile.truckMin > profile.truckMax) {
+    return "Lowest truck number is above the highest"
+  }
+  if (!isWholeNumber(profile.truckPadLength, 0)) return "Padding must be 0 or more digits"
+  if (!isWholeNumber(profile.trailerColumn, 0)) return "Trailer column must be 0 or more"
+  if (!isWholeNumber(profile.lookAheadRows, 1)) return "Look-ahead must be at least 1 row"
+
+  return null
+}
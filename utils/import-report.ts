@@ -0,0 +1,26 @@
+// A source row a parser skipped or could only partly read
+export interface ImportWarning {
+  // Row in the source file (table row for HTML, sheet row for Excel), 1-based
+  row: number
+  reason: string
+  // The text that was read, so the row can be found in the source
+  raw: string
+}
+
+export interface ParseResult<T> {
+  mappings: T[]
+  warnings: ImportWarning[]
+}
+
+export const escapeCsvValue = (value: string | number) => {
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function warningsToCsv(warnings: ImportWarning[]): string {
+  const lines = [["Row", "Reason", "Raw text"].join(",")]
+  for (const warning of warnings) {
+    lines.push([warning.row, warning.reason, warning.raw].map(escapeCsvValue).join(","))
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,96 @@
+import type { TruckTrailerMapping } from "./html-parser"
+
+// A truck whose trailer differs between two versions of the lookup data
+export interface LookupChange {
+  truck: string
+  before: TruckTrailerMapping
+  after: TruckTrailerMapping
+}
+
+// Difference between two versions of the lookup data, keyed on truck
+export interface LookupDiff {
+  added: TruckTrailerMapping[]
+  changed: LookupChange[]
+  removed: TruckTrailerMapping[]
+  // Same truck-trailer pair, only the row number moved
+  reordered: TruckTrailerMapping[]
+  unchangedCount: number
+}
+
+// Index mappings by truck; later duplicates win, like an upsert keyed on truck would
+export function indexByTruck(data: TruckTrailerMapping[]): Map<string, TruckTrailerMapping> {
+  const index = new Map<string, TruckTrailerMapping>()
+  for (const item of data) {
+    const truck = (item.truck || "").trim()
+    if (!truck) continue
+    index.set(truck, { ...item, truck, trailer: (item.trailer || "").trim() })
+  }
+  return index
+}
+
+// Compare two versions of the lookup data
+export function diffLookupData(before: TruckTrailerMapping[], after: TruckTrailerMapping[]): LookupDiff {
+  const beforeIndex = indexByTruck(before)
+  const afterIndex = indexByTruck(after)
+  const diff: LookupDiff = { added: [], changed: [], removed: [], reordered: [], unchangedCount: 0 }
+
+  for (const [truck, item] of afterIndex) {
+    const previous = beforeIndex.get(truck)
+    if (!previous) {
+      diff.added.push(item)
+    } else if (previous.trailer !== item.trailer) {
+      diff.changed.push({ truck, before: previous, after: item })
+    } else if (previous.row !== item.row) {
+      diff.reordered.push(item)
+    } else {
+      diff.unchangedCount++
+    }
+  }
+
+  for (const [truck, item] of beforeIndex) {
+    if (!afterIndex.has(truck)) {
+      diff.removed.push(item)
+    }
+  }
+
+  return diff
+}
+
+export function hasLookupChanges(diff: LookupDiff): boolean {
+  return diff.added.length > 0 || diff.changed.length > 0 || diff.removed.length > 0 || diff.reordered.length > 0
+}
+
+// Apply a diff to the target data, putting back the before-state for every rejected truck
+export function applyAcceptedChanges(
+  before: TruckTrailerMapping[],
+  target: TruckTrailerMapping[],
+  rejectedTrucks: Set<string>,
+): TruckTrailerMapping[] {
+  if (rejectedTrucks.size === 0) return target
+
+  const beforeIndex = indexByTruck(before)
+  const targetTrucks = new Set<string>()
+  const result: TruckTrailerMapping[] = []
+
+  for (const item of target) {
+    const truck = (item.truck || "").trim()
+    targetTrucks.add(truck)
+    if (!rejectedTrucks.has(truck)) {
+      result.push(item)
+      continue
+    }
+    // A rejected change keeps the old trailer, a rejected addition is left out
+    const previous = beforeIndex.get(truck)
+    if (previous) result.push({ ...previous, row: item.row })
+  }
+
+  // Rejected removals stay in the data
+  let nextRow = result.reduce((max, item) => Math.max(max, item.row), 0) + 1
+  for (const [truck, item] of beforeIndex) {
+    if (rejectedTrucks.has(truck) && !targetTrucks.has(truck)) {
+      result.push({ ...item, row: nextRow++ })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,172 @@
+import type { TruckTrailerMapping } from "./html-parser"
+import { escapeCsvValue, type ImportWarning, type ParseResult } from "./import-report"
+
+// Marks a JSON file as a lookup database export
+export const LOOKUP_EXPORT_FORMAT = "truck-trailer-lookup"
+export const LOOKUP_EXPORT_VERSION = 1
+
+export interface LookupExport {
+  format: typeof LOOKUP_EXPORT_FORMAT
+  version: number
+  siteId: string
+  // ISO timestamps
+  exportedAt: string
+  lastUpdated: string | null
+  entries: TruckTrailerMapping[]
+}
+
+const CSV_HEADER = ["truck", "trailer", "row", "last_updated", "exported_at"]
+
+interface ExportMetadata {
+  siteId: string
+  lastUpdated: Date | null
+  exportedAt?: Date
+}
+
+export function exportLookupJson(data: TruckTrailerMapping[], { siteId, lastUpdated, exportedAt }: ExportMetadata) {
+  const exported: LookupExport = {
+    format: LOOKUP_EXPORT_FORMAT,
+    version: LOOKUP_EXPORT_VERSION,
+    siteId,
+    exportedAt: (exportedAt || new Date()).toISOString(),
+    lastUpdated: lastUpdated ? lastUpdated.toISOString() : null,
+    entries: data.map(({ truck, trailer, row }) => ({ truck, trailer, row })),
+  }
+  return JSON.stringify(exported, null, 2)
+}
+
+// One line per pair; the database timestamps are repeated so every row carries them
+export function exportLookupCsv(data: TruckTrailerMapping[], { lastUpdated, exportedAt }: ExportMetadata) {
+  const lastUpdatedText = lastUpdated ? lastUpdated.toISOString() : ""
+  const exportedAtText = (exportedAt || new Date()).toISOString()
+  const lines = [CSV_HEADER.join(",")]
+  for (const item of data) {
+    lines.push([item.truck, item.trailer, item.row, lastUpdatedText, exportedAtText].map(escapeCsvValue).join(","))
+  }
+  return lines.join("\n")
+}
+
+// Split one CSV line, honouring quoted values
+function splitCsvLine(line: string): string[] {
+  const values: string[] = []
+  let current = ""
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      values.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  values.push(current)
+  return values
+}
+
+// Does this CSV text start with the header of a lookup export?
+export function isLookupExportCsv(text: string): boolean {
+  const header = splitCsvLine(text.split(/\r?\n/, 1)[0] || "").map((value) => value.trim().toLowerCase())
+  return header[0] === "truck" && header[1] === "trailer" && header[2] === "row"
+}
+
+// Sniff a .csv file without reading all of it
+export async function isLookupExportFile(file: File): Promise<boolean> {
+  if (file.name.toLowerCase().endsWith(".json")) return true
+  if (!file.name.toLowerCase().endsWith(".csv")) return false
+  return isLookupExportCsv(await file.slice(0, 256).text())
+}
+
+// Check the entries and report the ones that cannot be imported; later duplicates of a truck win
+export function validateEntries(entries: { truck: unknown; trailer: unknown; row: unknown; sourceRow: number }[]) {
+  const mappings: TruckTrailerMapping[] = []
+  const warnings: ImportWarning[] = []
+  const seenTrucks = new Map<string, number>()
+
+  for (const entry of entries) {
+    const truck = typeof entry.truck === "string" || typeof entry.truck === "number" ? String(entry.truck).trim() : ""
+    const trailer =
+      typeof entry.trailer === "string" || typeof entry.trailer === "number" ? String(entry.trailer).trim() : ""
+    const raw = `${entry.truck ?? ""} | ${entry.trailer ?? ""} | ${entry.row ?? ""}`
+
+    if (!truck || !trailer) {
+      warnings.push({ row: entry.sourceRow, reason: !truck ? "Truck is empty" : "Trailer is empty", raw })
+      continue
+    }
+
+    const firstRow = seenTrucks.get(truck)
+    if (firstRow !== undefined) {
+      warnings.push({ row: entry.sourceRow, reason: `Duplicate truck (replaces row ${firstRow})`, raw })
+      const index = mappings.findIndex((item) => item.truck === truck)
+      mappings.splice(index, 1)
+    }
+    seenTrucks.set(truck, entry.sourceRow)
+
+    const row = Number(entry.row)
+    if (!Number.isInteger(row) || row < 1) {
+      warnings.push({ row: entry.sourceRow, reason: "Row number is missing or invalid; renumbered", raw })
+    }
+    mappings.push({ truck, trailer, row: Number.isInteger(row) && row > 0 ? row : entry.sourceRow })
+  }
+
+  return { mappings, warnings }
+}
+
+function parseLookupJson(text: string): ParseResult<TruckTrailerMapping> {
+  let parsed: Partial<LookupExport>
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+
+  if (parsed?.format !== LOOKUP_EXPORT_FORMAT || !Array.isArray(parsed.entries)) {
+    throw new Error("The file is not a truck-trailer lookup export")
+  }
+  if (typeof parsed.version !== "number" || parsed.version > LOOKUP_EXPORT_VERSION) {
+    throw new Error(`Unsupported lookup export version ${parsed.version}; update the app to import it`)
+  }
+
+  return validateEntries(
+    parsed.entries.map((entry, index) => ({
+      truck: entry?.truck,
+      trailer: entry?.trailer,
+      row: entry?.row,
+      sourceRow: index + 1,
+    })),
+  )
+}
+
+function parseLookupCsv(text: string): ParseResult<TruckTrailerMapping> {
+  const lines = text.split(/\r?\n/)
+  if (!isLookupExportCsv(text)) {
+    throw new Error('The CSV must start with a "truck,trailer,row" header')
+  }
+
+  const entries = []
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue
+    const [truck, trailer, row] = splitCsvLine(lines[i])
+    // The header is line 1
+    entries.push({ truck, trailer, row, sourceRow: i + 1 })
+  }
+  return validateEntries(entries)
+}
+
+// Read a lookup export (JSON or CSV) back into mappings
+export async function parseLookupExportFile(file: File): Promise<ParseResult<TruckTrailerMapping>> {
+  const text = await file.text()
+  return file.name.toLowerCase().endsWith(".json") ? parseLookupJson(text) : parseLookupCsv(text)
+}
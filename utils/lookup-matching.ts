@@ -0,0 +1,179 @@
+import type { TruckTrailerMapping } from "./html-parser"
+
+// How a lookup value matched what the operator typed
+export type LookupMatchType = "exact" | "normalized" | "fuzzy"
+
+export interface LookupCandidate {
+  truck: string
+  trailer: string
+  matchType: LookupMatchType
+  // Higher ranks first
+  score: number
+}
+
+export type LookupField = "truck" | "trailer"
+
+const MATCH_SCORES = {
+  exact: 100,
+  normalized: 80,
+  // Same number without a letter prefix, e.g. "154" for "O-154"
+  prefixVariant: 70,
+  // One mistyped, missing or extra character
+  oneEdit: 50,
+  twoEdits: 40,
+  // Typed the start of the value
+  startsWith: 30,
+  contains: 20,
+}
+
+const DEFAULT_CANDIDATE_LIMIT = 8
+
+// "O-154" → "o154", "080" → "80", "ab 0012-x" → "ab12x": case, separators and leading zeros are ignored
+export function normalizeLookupValue(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s\-_./]+/g, "")
+    .replace(/(^|[^0-9])0+(?=[0-9])/g, "$1")
+}
+
+// The normalized value without its letter prefix ("o154" → "154"), or null if it has none
+const stripLetterPrefix = (normalized: string): string | null => {
+  const match = normalized.match(/^[a-z]+(?=[0-9])/)
+  return match ? normalized.substring(match[0].length) : null
+}
+
+// Levenshtein distance, giving up once it is larger than maxDistance
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > maxDistance) return maxDistance + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Score one stored value against the input, or null if it does not match at all
+function scoreValue(
+  input: string,
+  normalizedInput: string,
+  value: string,
+): { matchType: LookupMatchType; score: number } | null {
+  if (value === input) return { matchType: "exact", score: MATCH_SCORES.exact }
+
+  const normalizedValue = normalizeLookupValue(value)
+  if (!normalizedValue) return null
+  if (normalizedValue === normalizedInput) return { matchType: "normalized", score: MATCH_SCORES.normalized }
+
+  const valueWithoutPrefix = stripLetterPrefix(normalizedValue)
+  const inputWithoutPrefix = stripLetterPrefix(normalizedInput)
+  if (valueWithoutPrefix === normalizedInput || inputWithoutPrefix === normalizedValue) {
+    return { matchType: "normalized", score: MATCH_SCORES.prefixVariant }
+  }
+
+  // Short numbers are too close to each other for typo matching to mean anything
+  if (normalizedInput.length >= 3) {
+    const maxDistance = normalizedInput.length >= 6 ? 2 : 1
+    const distance = editDistance(normalizedInput, normalizedValue, maxDistance)
+    if (distance <= maxDistance) {
+      return { matchType: "fuzzy", score: distance === 1 ? MATCH_SCORES.oneEdit : MATCH_SCORES.twoEdits }
+    }
+  }
+
+  if (normalizedValue.startsWith(normalizedInput)) return { matchType: "fuzzy", score: MATCH_SCORES.startsWith }
+  if (normalizedInput.length >= 2 && normalizedValue.includes(normalizedInput)) {
+    return { matchType: "fuzzy", score: MATCH_SCORES.contains }
+  }
+  return null
+}
+
+// Ranked lookup entries whose truck (or trailer) matches what was typed; ties go to the shorter value
+export function findLookupCandidates(
+  data: TruckTrailerMapping[],
+  input: string,
+  field: LookupField,
+  limit = DEFAULT_CANDIDATE_LIMIT,
+): LookupCandidate[] {
+  const trimmedInput = input.trim()
+  const normalizedInput = normalizeLookupValue(trimmedInput)
+  if (!normalizedInput) return []
+
+  const candidates: LookupCandidate[] = []
+  for (const item of data) {
+    const value = field === "truck" ? item.truck : item.trailer
+    if (!value || !item.truck || !item.trailer) continue
+
+    const match = scoreValue(trimmedInput, normalizedInput, value)
+    if (match) {
+      candidates.push({ truck: item.truck, trailer: item.trailer, ...match })
+    }
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a[field].length - b[field].length || a[field].localeCompare(b[field]))
+    .slice(0, limit)
+}
+
+// The entry a confirmed value was most likely a typo of: the only candidate within one or two edits, else null
+export function findTypoCorrection(candidates: LookupCandidate[]): LookupCandidate | null {
+  const typoMatches = candidates.filter(
+    (candidate) => candidate.matchType === "fuzzy" && candidate.score >= MATCH_SCORES.twoEdits,
+  )
+  return typoMatches.length === 1 ? typoMatches[0] : null
+}
+
+// Lookup entries by normalized truck (or trailer); null where several entries share a key
+export interface NormalizedLookupIndex {
+  byValue: Map<string, TruckTrailerMapping | null>
+  // Keyed without the letter prefix, e.g. "154" for "O-154"
+  byPrefixVariant: Map<string, TruckTrailerMapping | null>
+}
+
+const addToIndex = (index: Map<string, TruckTrailerMapping | null>, key: string, item: TruckTrailerMapping) => {
+  const existing = index.get(key)
+  if (existing === undefined) {
+    index.set(key, item)
+  } else if (existing && (existing.truck !== item.truck || existing.trailer !== item.trailer)) {
+    index.set(key, null)
+  }
+}
+
+export function buildNormalizedLookupIndex(data: TruckTrailerMapping[], field: LookupField): NormalizedLookupIndex {
+  const index: NormalizedLookupIndex = { byValue: new Map(), byPrefixVariant: new Map() }
+  for (const item of data) {
+    const value = field === "truck" ? item.truck : item.trailer
+    if (!value || !item.truck || !item.trailer) continue
+
+    const normalizedValue = normalizeLookupValue(value)
+    if (!normalizedValue) continue
+    addToIndex(index.byValue, normalizedValue, item)
+    const valueWithoutPrefix = stripLetterPrefix(normalizedValue)
+    if (valueWithoutPrefix) {
+      addToIndex(index.byPrefixVariant, valueWithoutPrefix, item)
+    }
+  }
+  return index
+}
+
+// The one entry whose value equals the input up to case, separators, leading zeros or a letter prefix -
+// null when there is none or the input is ambiguous
+export function findNormalizedLookupEntry(index: NormalizedLookupIndex, input: string): TruckTrailerMapping | null {
+  const normalizedInput = normalizeLookupValue(input)
+  if (!normalizedInput) return null
+
+  const byValue = index.byValue.get(normalizedInput)
+  if (byValue !== undefined) return byValue
+  const byPrefixVariant = index.byPrefixVariant.get(normalizedInput)
+  if (byPrefixVariant !== undefined) return byPrefixVariant
+  const inputWithoutPrefix = stripLetterPrefix(normalizedInput)
+  return (inputWithoutPrefix && index.byValue.get(inputWithoutPrefix)) || null
+}